@@ -0,0 +1,221 @@
+/**
+ * Import Audit
+ *
+ * Cross-references the WLASL archive (wlasl_class_list.txt, nslt_*.json, missing.txt),
+ * the sign store (signs.json), the words the interpreter relies on and the videos on disk,
+ * and writes a machine-readable JSON report of every gap:
+ * - glossesWithoutVideo: WLASL classes with no sign, or whose sign has no playable video
+ * - videosWithoutGlosses: files in public/videos that no sign refers to
+ * - vocabularyWithoutSigns: words the pipeline refers to (synonym targets, the fingerspelling
+ *   alphabet, curated sentences, the gloss corpus) that have no sign
+ * - listedAsMissing: missing.txt entries, and the signs still pointing at them
+ * - externalOnly: signs that can only be played from an external URL
+ *
+ * Usage: npx tsx backend/scripts/audit_import.ts [--out=report.json]
+ * Without --out the report is printed to stdout.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { SYNONYMS } from '../../shared/tokenMatcher';
+import type { SignVariant } from '../src/repositories';
+import { isVideoKey } from '../src/services/video-url.service';
+
+const ARCHIVE_DIR = path.join(process.cwd(), 'archive (7)');
+const VIDEOS_DIR = path.join(process.cwd(), 'backend', 'public', 'videos');
+const DATA_DIR = path.join(process.cwd(), 'backend', 'src', 'data');
+const DB_JSON_PATH = path.join(DATA_DIR, 'signs.json');
+const SENTENCES_PATH = path.join(DATA_DIR, 'supported_sentences.json');
+const CORPUS_PATH = path.join(DATA_DIR, 'gloss_corpus.jsonl');
+
+const ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('');
+
+interface StoredSign extends SignVariant {
+    word: string;
+    alternates?: SignVariant[];
+}
+
+type VocabularySource = 'synonym' | 'fingerspelling' | 'supported-sentence' | 'gloss-corpus';
+
+const readArg = (name: string): string | undefined => {
+    const prefix = `--${name}=`;
+    return process.argv.slice(2).find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+};
+
+const readIfExists = (filePath: string): string | null =>
+    fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf-8') : null;
+
+const videoIdFromUrl = (url: string) => url.match(/(?:^|\/)([^/]+)\.mp4$/)?.[1];
+
+
+/**
+ * wlasl_class_list.txt: one "<classId>\t<gloss>" per line.
+ */
+function loadClassList(): Map<number, string> {
+    const classes = new Map<number, string>();
+    readIfExists(path.join(ARCHIVE_DIR, 'wlasl_class_list.txt'))?.split(/\r?\n/).forEach(line => {
+        const [classId, gloss] = line.split('\t');
+        if (gloss?.trim()) classes.set(Number(classId), gloss.trim().toUpperCase());
+    });
+    return classes;
+}
+
+/**
+ * Class id of every video in the nslt_*.json splits.
+ */
+function loadVideoClasses(): Map<string, number> {
+    const videoClasses = new Map<string, number>();
+    if (!fs.existsSync(ARCHIVE_DIR)) return videoClasses;
+
+    fs.readdirSync(ARCHIVE_DIR)
+        .filter(file => /^nslt_\d+\.json$/.test(file))
+        .forEach(file => {
+            const split = JSON.parse(fs.readFileSync(path.join(ARCHIVE_DIR, file), 'utf-8'));
+            Object.entries(split).forEach(([videoId, entry]: [string, any]) => {
+                const [classId] = entry.action || [];
+                if (Number.isInteger(classId)) videoClasses.set(videoId, classId);
+            });
+        });
+    return videoClasses;
+}
+
+/**
+ * Words the interpreter expects to sign, with where each one is referenced.
+ */
+function collectVocabulary(): Map<string, Set<VocabularySource>> {
+    const vocabulary = new Map<string, Set<VocabularySource>>();
+    const add = (word: string, source: VocabularySource) => {
+        const normalized = word.trim().toUpperCase();
+        if (!normalized) return;
+        vocabulary.set(normalized, (vocabulary.get(normalized) ?? new Set()).add(source));
+    };
+
+    Object.values(SYNONYMS).flat().forEach(word => add(word, 'synonym'));
+    ALPHABET.forEach(letter => add(letter, 'fingerspelling'));
+
+    const sentences = readIfExists(SENTENCES_PATH);
+    if (sentences) {
+        JSON.parse(sentences).forEach((sentence: { gloss: string; words?: string[] }) => {
+            (sentence.words ?? sentence.gloss.split(/\s+/)).forEach(word => add(word, 'supported-sentence'));
+        });
+    }
+
+    readIfExists(CORPUS_PATH)?.split(/\r?\n/).forEach(line => {
+        if (!line.trim()) return;
+        (JSON.parse(line).gloss as string).split(/\s+/).forEach(word => add(word, 'gloss-corpus'));
+    });
+
+    return vocabulary;
+}
+
+async function main() {
+    const outPath = readArg('out');
+
+    if (!fs.existsSync(DB_JSON_PATH)) {
+        throw new Error(`Sign store not found at ${DB_JSON_PATH}. Run import_wlasl.ts first.`);
+    }
+
+    const signs: StoredSign[] = JSON.parse(fs.readFileSync(DB_JSON_PATH, 'utf-8'));
+    const signsByWord = new Map(signs.map(sign => [sign.word, sign]));
+    const classes = loadClassList();
+    const videoClasses = loadVideoClasses();
+    const missingIds = (readIfExists(path.join(ARCHIVE_DIR, 'missing.txt')) ?? '').split(/\s+/).filter(Boolean);
+    const filesOnDisk = fs.existsSync(VIDEOS_DIR)
+        ? fs.readdirSync(VIDEOS_DIR).filter(file => file.endsWith('.mp4'))
+        : [];
+    const onDisk = new Set(filesOnDisk);
+
+    const variantsOf = (sign: StoredSign): SignVariant[] => [sign, ...(sign.alternates ?? [])];
+    const glossOfVideo = (videoId: string | undefined) => {
+        const classId = videoId ? videoClasses.get(videoId) : undefined;
+        return classId !== undefined ? classes.get(classId) ?? null : null;
+    };
+
+    // Glosses without video
+    const glossesWithoutVideo: { gloss: string; reason: 'NO_SIGN' | 'NO_PLAYABLE_VIDEO'; localFilesMissing: string[] }[] = [];
+    classes.forEach(gloss => {
+        const sign = signsByWord.get(gloss);
+        if (!sign) {
+            glossesWithoutVideo.push({ gloss, reason: 'NO_SIGN', localFilesMissing: [] });
+            return;
+        }
+        const variants = variantsOf(sign);
+        const playable = variants.some(variant => !isVideoKey(variant.videoUrl) || onDisk.has(variant.videoUrl));
+        if (!playable) {
+            glossesWithoutVideo.push({
+                gloss,
+                reason: 'NO_PLAYABLE_VIDEO',
+                localFilesMissing: variants.map(variant => variant.videoUrl),
+            });
+        }
+    });
+
+    // Videos without glosses
+    const referencedFiles = new Set(signs.flatMap(sign => variantsOf(sign)
+        .filter(variant => isVideoKey(variant.videoUrl))
+        .map(variant => variant.videoUrl)));
+    const videosWithoutGlosses = filesOnDisk
+        .filter(file => !referencedFiles.has(file))
+        .map(file => ({ file, wlaslGloss: glossOfVideo(path.basename(file, '.mp4')) }));
+
+    // Vocabulary words without signs
+    const vocabularyWithoutSigns = Array.from(collectVocabulary())
+        .filter(([word]) => !signsByWord.has(word))
+        .map(([word, sources]) => ({ word, sources: Array.from(sources) }));
+
+    // Entries listed in missing.txt
+    const missing = new Set(missingIds);
+    const listedAsMissing = {
+        entries: missingIds.map(videoId => ({ videoId, wlaslGloss: glossOfVideo(videoId) })),
+        referencedBySigns: signs.flatMap(sign => variantsOf(sign)
+            .filter(variant => missing.has(videoIdFromUrl(variant.videoUrl) ?? ''))
+            .map(variant => ({ word: sign.word, videoUrl: variant.videoUrl }))),
+    };
+
+    // External-only URLs
+    const externalOnly = signs
+        .filter(sign => variantsOf(sign).every(variant => !isVideoKey(variant.videoUrl)))
+        .map(sign => ({ word: sign.word, urls: variantsOf(sign).map(variant => variant.videoUrl) }));
+
+    const report = {
+        generatedAt: new Date().toISOString(),
+        sources: {
+            archiveDir: ARCHIVE_DIR,
+            videosDir: VIDEOS_DIR,
+            signsFile: DB_JSON_PATH,
+        },
+        summary: {
+            wlaslGlosses: classes.size,
+            signs: signs.length,
+            variants: signs.reduce((total, sign) => total + variantsOf(sign).length, 0),
+            videosOnDisk: filesOnDisk.length,
+            glossesWithoutVideo: glossesWithoutVideo.length,
+            videosWithoutGlosses: videosWithoutGlosses.length,
+            vocabularyWithoutSigns: vocabularyWithoutSigns.length,
+            listedAsMissing: listedAsMissing.entries.length,
+            missingReferencedBySigns: listedAsMissing.referencedBySigns.length,
+            externalOnly: externalOnly.length,
+        },
+        glossesWithoutVideo,
+        videosWithoutGlosses,
+        vocabularyWithoutSigns,
+        listedAsMissing,
+        externalOnly,
+    };
+
+    const json = JSON.stringify(report, null, 2);
+    if (!outPath) {
+        console.log(json);
+        return;
+    }
+
+    fs.writeFileSync(outPath, json);
+    console.log(`Audit complete! Report saved to ${outPath}`);
+    Object.entries(report.summary).forEach(([key, value]) => console.log(`  ${key}: ${value}`));
+}
+
+main()
+    .catch((e) => {
+        console.error(e);
+        process.exit(1);
+    });
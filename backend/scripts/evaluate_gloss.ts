@@ -0,0 +1,194 @@
+/**
+ * Gloss Evaluation
+ *
+ * Runs every sentence of a JSONL reference corpus ({ "text": "...", "gloss": "..." } per line)
+ * through the English -> gloss -> sign pipeline and reports exact-match rate,
+ * token-level precision/recall, vocabulary coverage and a diff of every failure.
+ * Sentences the rules are known to get wrong carry a "knownFailure" field saying why.
+ *
+ * Usage: npx tsx backend/scripts/evaluate_gloss.ts [--corpus=path.jsonl] [--min-accuracy=0.8]
+ * Exits with code 1 when a sentence without "knownFailure" does not match (a regression),
+ * or when the exact-match rate is below --min-accuracy.
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { translateToGloss } from '../../shared/textToGloss';
+import { matchToken } from '../../shared/tokenMatcher';
+
+const DEFAULT_CORPUS_PATH = path.join(process.cwd(), 'backend', 'src', 'data', 'gloss_corpus.jsonl');
+const DB_JSON_PATH = path.join(process.cwd(), 'backend', 'src', 'data', 'signs.json');
+const DEFAULT_MIN_ACCURACY = 0.8;
+
+interface CorpusEntry {
+    line: number;
+    text: string;
+    gloss: string;
+    knownFailure: string | null;
+}
+
+const readArg = (name: string): string | undefined => {
+    const prefix = `--${name}=`;
+    return process.argv.slice(2).find(arg => arg.startsWith(prefix))?.slice(prefix.length);
+};
+
+const toWords = (gloss: string): string[] => gloss.trim().toUpperCase().split(/\s+/).filter(Boolean);
+
+/**
+ * Counts the words two glosses share, ignoring order (multiset intersection).
+ */
+const countOverlap = (expected: string[], actual: string[]): number => {
+    const remaining = new Map<string, number>();
+    expected.forEach(word => remaining.set(word, (remaining.get(word) || 0) + 1));
+    let overlap = 0;
+    actual.forEach(word => {
+        const count = remaining.get(word) || 0;
+        if (count > 0) {
+            overlap++;
+            remaining.set(word, count - 1);
+        }
+    });
+    return overlap;
+};
+
+/**
+ * Word-level diff based on the longest common subsequence: "[-MISSING-] {+EXTRA+} SAME".
+ */
+const diffWords = (expected: string[], actual: string[]): string => {
+    const lcs: number[][] = Array.from({ length: expected.length + 1 }, () => new Array(actual.length + 1).fill(0));
+    for (let i = expected.length - 1; i >= 0; i--) {
+        for (let j = actual.length - 1; j >= 0; j--) {
+            lcs[i][j] = expected[i] === actual[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+        }
+    }
+
+    const parts: string[] = [];
+    let i = 0;
+    let j = 0;
+    while (i < expected.length || j < actual.length) {
+        if (i < expected.length && j < actual.length && expected[i] === actual[j]) {
+            parts.push(expected[i]);
+            i++;
+            j++;
+        } else if (j < actual.length && (i === expected.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+            parts.push(`{+${actual[j]}+}`);
+            j++;
+        } else {
+            parts.push(`[-${expected[i]}-]`);
+            i++;
+        }
+    }
+    return parts.join(' ');
+};
+
+const percent = (value: number): string => `${(value * 100).toFixed(1)}%`;
+
+async function main() {
+    const corpusPath = readArg('corpus') || DEFAULT_CORPUS_PATH;
+    const minAccuracy = Number(readArg('min-accuracy') ?? DEFAULT_MIN_ACCURACY);
+
+    if (Number.isNaN(minAccuracy) || minAccuracy < 0 || minAccuracy > 1) {
+        throw new Error('--min-accuracy must be a number between 0 and 1');
+    }
+    if (!fs.existsSync(corpusPath)) {
+        throw new Error(`Corpus file not found at ${corpusPath}`);
+    }
+    if (!fs.existsSync(DB_JSON_PATH)) {
+        throw new Error(`Sign store not found at ${DB_JSON_PATH}. Run import_wlasl.ts first.`);
+    }
+
+    const vocabulary = new Set<string>(JSON.parse(fs.readFileSync(DB_JSON_PATH, 'utf-8')).map((sign: any) => sign.word));
+
+    const corpus: CorpusEntry[] = [];
+    fs.readFileSync(corpusPath, 'utf-8').split(/\r?\n/).forEach((raw, idx) => {
+        if (!raw.trim()) return;
+        const entry = JSON.parse(raw);
+        if (typeof entry.text !== 'string' || typeof entry.gloss !== 'string' || !['string', 'undefined'].includes(typeof entry.knownFailure)) {
+            throw new Error(`Line ${idx + 1}: expected { "text": string, "gloss": string, "knownFailure"?: string }`);
+        }
+        corpus.push({ line: idx + 1, text: entry.text, gloss: entry.gloss, knownFailure: entry.knownFailure ?? null });
+    });
+
+    if (corpus.length === 0) {
+        throw new Error(`Corpus ${corpusPath} is empty`);
+    }
+
+    console.log(`Evaluating ${corpus.length} sentences from ${corpusPath}...`);
+
+    let exactMatches = 0;
+    let overlapTotal = 0;
+    let predictedTotal = 0;
+    let expectedTotal = 0;
+    const statusCounts: Record<string, number> = { MATCHED: 0, SUBSTITUTED: 0, FINGERSPELLED: 0, DROPPED: 0 };
+    const failures: string[] = [];
+    const regressions: string[] = [];
+    const fixed: string[] = [];
+
+    for (const entry of corpus) {
+        const result = translateToGloss(entry.text, { vocabulary });
+        result.tokens.forEach(token => {
+            statusCounts[matchToken(token, vocabulary).status]++;
+        });
+
+        const expected = toWords(entry.gloss);
+        const actual = toWords(result.gloss);
+        overlapTotal += countOverlap(expected, actual);
+        predictedTotal += actual.length;
+        expectedTotal += expected.length;
+
+        if (expected.join(' ') === actual.join(' ')) {
+            exactMatches++;
+            if (entry.knownFailure) fixed.push(`  line ${entry.line}: "${entry.text}"`);
+        } else {
+            failures.push([
+                `  line ${entry.line}: "${entry.text}"`,
+                `    expected: ${expected.join(' ')}`,
+                `    actual:   ${actual.join(' ')}`,
+                `    diff:     ${diffWords(expected, actual)}`,
+                `    rules:    ${result.rulesApplied.join(', ') || '(none)'}`,
+                `    known:    ${entry.knownFailure ?? 'no (regression)'}`,
+            ].join('\n'));
+            if (!entry.knownFailure) regressions.push(`  line ${entry.line}: "${entry.text}"`);
+        }
+    }
+
+    const accuracy = exactMatches / corpus.length;
+    const precision = predictedTotal > 0 ? overlapTotal / predictedTotal : 0;
+    const recall = expectedTotal > 0 ? overlapTotal / expectedTotal : 0;
+    const tokenTotal = Object.values(statusCounts).reduce((sum, count) => sum + count, 0);
+    const coverage = tokenTotal > 0 ? statusCounts.MATCHED / tokenTotal : 0;
+
+    if (failures.length > 0) {
+        console.log(`\nFailures (${failures.length}):`);
+        console.log(failures.join('\n\n'));
+    }
+
+    console.log(`\nEvaluation complete!`);
+    console.log(`Exact match:         ${exactMatches}/${corpus.length} (${percent(accuracy)})`);
+    console.log(`Token precision:     ${percent(precision)}`);
+    console.log(`Token recall:        ${percent(recall)}`);
+    console.log(`Vocabulary coverage: ${percent(coverage)} of ${tokenTotal} tokens have their own sign`);
+    console.log(`  substituted: ${statusCounts.SUBSTITUTED}, fingerspelled: ${statusCounts.FINGERSPELLED}, dropped: ${statusCounts.DROPPED}`);
+
+    if (fixed.length > 0) {
+        console.log(`\nNow passing, remove their "knownFailure" (${fixed.length}):`);
+        console.log(fixed.join('\n'));
+    }
+
+    if (regressions.length > 0) {
+        console.error(`❌ ${regressions.length} sentence(s) that should match no longer do:`);
+        console.error(regressions.join('\n'));
+        process.exit(1);
+    }
+    if (accuracy < minAccuracy) {
+        console.error(`❌ Exact-match rate ${percent(accuracy)} is below the threshold of ${percent(minAccuracy)}.`);
+        process.exit(1);
+    }
+    console.log(`✅ Exact-match rate is at or above the threshold of ${percent(minAccuracy)}.`);
+}
+
+main()
+    .catch((e) => {
+        console.error(e);
+        process.exit(1);
+    });
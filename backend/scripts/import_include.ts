@@ -0,0 +1,98 @@
+/**
+ * INCLUDE Import (Indian Sign Language)
+ *
+ * Builds the ISL seed file (signs.isl.json) from the INCLUDE dataset. Extract the dataset
+ * under backend/public/videos/include, keeping its <Category>/<n>. <Word>/<clip> layout,
+ * so the clips are served by the static video route. Every clip of a word becomes a
+ * variant; the first one (by file name) is preferred.
+ *
+ * Usage: npx tsx backend/scripts/import_include.ts
+ */
+
+import fs from 'fs';
+import path from 'path';
+import type { SignVariant } from '../src/repositories';
+import { mediaProbeService } from '../src/services/media-probe.service';
+
+const INCLUDE_DIR = path.join(process.cwd(), 'backend', 'public', 'videos', 'include');
+const DB_JSON_PATH = path.join(process.cwd(), 'backend', 'src', 'data', 'signs.isl.json');
+const VIDEO_EXTENSIONS = ['.mp4', '.mov'];
+
+const listDirectories = (dir: string) =>
+    fs.readdirSync(dir, { withFileTypes: true }).filter(entry => entry.isDirectory()).map(entry => entry.name).sort();
+
+// Word folders are numbered within their category: "12. Good Morning" -> "GOOD MORNING"
+const wordFromFolder = (folder: string) => folder.replace(/^\d+\.\s*/, '').trim().replace(/\s+/g, ' ').toUpperCase();
+
+async function toVariant(category: string, folder: string, file: string): Promise<SignVariant> {
+    const videoPath = path.join(INCLUDE_DIR, category, folder, file);
+    // Video key: the path below public/videos, resolved to a URL by the API
+    const videoUrl = ['include', category, folder, file].join('/');
+
+    let probe = null;
+    try {
+        probe = await mediaProbeService.probeFile(videoPath);
+    } catch (err) {
+        console.warn(`Could not probe ${videoPath}: ${(err as Error).message}`);
+    }
+
+    // INCLUDE clips are trimmed to the sign already, so the whole clip is played
+    return {
+        videoUrl,
+        signerId: null,
+        subset: null,
+        source: 'INCLUDE',
+        durationMs: probe?.durationMs ?? null,
+        startMs: null,
+        endMs: null,
+        width: probe?.width ?? null,
+        height: probe?.height ?? null,
+        fps: probe?.fps ?? null,
+    };
+}
+
+async function main() {
+    console.log('Starting INCLUDE import to JSON...');
+
+    if (!fs.existsSync(INCLUDE_DIR)) {
+        console.error(`INCLUDE videos not found at ${INCLUDE_DIR}`);
+        return;
+    }
+
+    const variantsByWord = new Map<string, SignVariant[]>();
+    let variantCount = 0;
+
+    for (const category of listDirectories(INCLUDE_DIR)) {
+        for (const folder of listDirectories(path.join(INCLUDE_DIR, category))) {
+            const word = wordFromFolder(folder);
+            const files = fs.readdirSync(path.join(INCLUDE_DIR, category, folder))
+                .filter(file => VIDEO_EXTENSIONS.includes(path.extname(file).toLowerCase()))
+                .sort();
+
+            for (const file of files) {
+                // Some words appear in more than one category; their clips are merged
+                variantsByWord.set(word, [...(variantsByWord.get(word) ?? []), await toVariant(category, folder, file)]);
+                variantCount++;
+            }
+        }
+    }
+
+    const signs = Array.from(variantsByWord, ([word, [preferred, ...alternates]]) => ({
+        word,
+        ...preferred,
+        dominantHand: 'RIGHT',
+        alternates,
+    }));
+
+    fs.writeFileSync(DB_JSON_PATH, JSON.stringify(signs, null, 2));
+
+    console.log(`Import complete!`);
+    console.log(`Saved to ${DB_JSON_PATH}`);
+    console.log(`Total Imported: ${signs.length} signs, ${variantCount} variants`);
+}
+
+main()
+    .catch((e) => {
+        console.error(e);
+        process.exit(1);
+    });
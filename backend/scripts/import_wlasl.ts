@@ -1,12 +1,188 @@
+/**
+ * WLASL Import (American Sign Language)
+ *
+ * Builds the ASL seed file (signs.json) from the WLASL metadata and the nslt_*.json splits.
+ * Downloaded clips are stored by video key (their path below public/videos); the API resolves
+ * keys against VIDEO_BASE_URL. Recordings that were not downloaded keep their WLASL URL.
+ *
+ * Usage: npx tsx backend/scripts/import_wlasl.ts [--update-existing]
+ */
+
 import fs from 'fs';
 import path from 'path';
+import type { DatasetSubset, SignVariant } from '../src/repositories';
+import { mediaProbeService, type VideoMetadata } from '../src/services/media-probe.service';
+import { isVideoKey, toVideoKey } from '../src/services/video-url.service';
 
 const METADATA_PATH = path.join(process.cwd(), 'backend', 'src', 'data', 'raw', 'WLASL_v0.3.json');
 const VIDEOS_DIR = path.join(process.cwd(), 'backend', 'public', 'videos');
 const DB_JSON_PATH = path.join(process.cwd(), 'backend', 'src', 'data', 'signs.json');
-const BASE_URL = 'http://localhost:3000/videos';
+const NSLT_DIR = path.join(process.cwd(), 'archive (7)');
+// WLASL clips are published at 25 fps; instances without an fps field use this
+const DEFAULT_FPS = 25;
+
+interface FrameRange {
+    startFrame: number;
+    endFrame: number;
+}
+
+interface SplitEntry {
+    subset: DatasetSubset;
+    classId: number;
+    range: FrameRange | null;
+}
+
+type RecordingInfo = Pick<SignVariant, 'videoUrl'> & Partial<Pick<SignVariant, 'signerId' | 'subset' | 'source'>>;
+
+/**
+ * Reads the split, class and signing segment of every video from the nslt_*.json splits.
+ * Each entry looks like { "<video_id>": { "subset": "train", "action": [classId, startFrame, endFrame] } }.
+ */
+function loadSplits(): Map<string, SplitEntry> {
+    const splits = new Map<string, SplitEntry>();
+    if (!fs.existsSync(NSLT_DIR)) {
+        console.warn(`No nslt_*.json files found in ${NSLT_DIR}. Clips will not be trimmed.`);
+        return splits;
+    }
+
+    fs.readdirSync(NSLT_DIR)
+        .filter(file => /^nslt_\d+\.json$/.test(file))
+        .forEach(file => {
+            const split = JSON.parse(fs.readFileSync(path.join(NSLT_DIR, file), 'utf-8'));
+            Object.entries(split).forEach(([videoId, entry]: [string, any]) => {
+                const [classId, startFrame, endFrame] = entry.action || [];
+                const hasRange = Number.isInteger(startFrame) && Number.isInteger(endFrame) && endFrame >= startFrame;
+                splits.set(videoId, {
+                    subset: entry.subset,
+                    classId,
+                    range: hasRange ? { startFrame, endFrame } : null,
+                });
+            });
+        });
+
+    console.log(`Loaded splits for ${splits.size} videos from ${NSLT_DIR}.`);
+    return splits;
+}
+
+/**
+ * Video ids listed in missing.txt were never downloaded with the dataset.
+ */
+function loadMissingVideoIds(): Set<string> {
+    const missingPath = path.join(NSLT_DIR, 'missing.txt');
+    if (!fs.existsSync(missingPath)) return new Set();
+    return new Set(fs.readFileSync(missingPath, 'utf-8').split(/\s+/).filter(Boolean));
+}
+
+/**
+ * Converts a 1-based inclusive frame range into start/end times and the played duration.
+ * The segment is clamped to the real clip length when the file was probed.
+ */
+function toTiming(range: FrameRange | null | undefined, fps: number, clipDurationMs: number | null) {
+    if (!range) return { durationMs: clipDurationMs, startMs: null, endMs: null };
+    const startMs = Math.round(((range.startFrame - 1) / fps) * 1000);
+    const frameEndMs = Math.round((range.endFrame / fps) * 1000);
+    const endMs = clipDurationMs !== null ? Math.min(frameEndMs, clipDurationMs) : frameEndMs;
+    return { durationMs: endMs - startMs, startMs, endMs };
+}
+
+const videoIdFromUrl = (url: string) => url.match(/(?:^|\/)([^/]+)\.mp4$/)?.[1];
+
+/**
+ * Probes a clip served from public/videos. Remote clips are not downloaded.
+ */
+async function probeLocalVideo(videoUrl: string): Promise<VideoMetadata | null> {
+    if (!isVideoKey(videoUrl)) return null;
+    const videoPath = path.join(VIDEOS_DIR, videoUrl);
+    if (!fs.existsSync(videoPath)) return null;
+
+    try {
+        return await mediaProbeService.probeFile(videoPath);
+    } catch (err) {
+        console.warn(`Could not probe ${videoPath}: ${(err as Error).message}`);
+        return null;
+    }
+}
+
+/**
+ * Builds a variant with its signing segment, resolution and frame rate.
+ * Probed values win over the WLASL metadata, which wins over the defaults.
+ */
+async function toVariant(recording: RecordingInfo, split: SplitEntry | undefined, metadataFps?: number): Promise<SignVariant> {
+    // signs.json files written before video keys hold absolute development URLs
+    const videoUrl = toVideoKey(recording.videoUrl);
+    const probe = await probeLocalVideo(videoUrl);
+    const fps = probe?.fps || metadataFps || DEFAULT_FPS;
+    return {
+        videoUrl,
+        signerId: recording.signerId ?? null,
+        subset: recording.subset ?? split?.subset ?? null,
+        source: recording.source ?? null,
+        ...toTiming(split?.range, fps, probe?.durationMs ?? null),
+        width: probe?.width ?? null,
+        height: probe?.height ?? null,
+        fps: probe?.fps ?? null,
+    };
+}
+
+/**
+ * --update-existing: re-runs the trimming and probe stages on an existing signs.json,
+ * for when the raw WLASL metadata is not available. Signs without alternates get every
+ * other downloaded recording of their class from the splits.
+ */
+async function updateExistingSigns(splits: Map<string, SplitEntry>) {
+    if (!fs.existsSync(DB_JSON_PATH)) {
+        console.error(`Sign store not found at ${DB_JSON_PATH}`);
+        return;
+    }
+
+    const missing = loadMissingVideoIds();
+    const videosByClass = new Map<number, string[]>();
+    splits.forEach((entry, videoId) => {
+        if (missing.has(videoId)) return;
+        videosByClass.set(entry.classId, [...(videosByClass.get(entry.classId) ?? []), videoId]);
+    });
+    const splitOf = (videoUrl: string) => splits.get(videoIdFromUrl(videoUrl) ?? '');
+
+    let trimmedCount = 0;
+    let probedCount = 0;
+    let variantCount = 0;
+    const signs = [];
+    for (const { word, dominantHand, alternates, ...recording } of JSON.parse(fs.readFileSync(DB_JSON_PATH, 'utf-8'))) {
+        const split = splitOf(recording.videoUrl);
+        // Downloaded clips all live in public/videos, next to the preferred one
+        const recordings: RecordingInfo[] = alternates ?? (split ? videosByClass.get(split.classId) ?? [] : [])
+            .filter(videoId => videoId !== videoIdFromUrl(recording.videoUrl))
+            .map(videoId => ({ videoUrl: `${videoId}.mp4` }));
+
+        const preferred = await toVariant(recording, split);
+        const others: SignVariant[] = [];
+        for (const other of recordings) {
+            others.push(await toVariant(other, splitOf(other.videoUrl)));
+        }
+
+        [preferred, ...others].forEach(variant => {
+            if (variant.startMs !== null) trimmedCount++;
+            if (variant.fps !== null) probedCount++;
+            variantCount++;
+        });
+        signs.push({ word, ...preferred, dominantHand, alternates: others });
+    }
+
+    fs.writeFileSync(DB_JSON_PATH, JSON.stringify(signs, null, 2));
+    console.log(`Update complete!`);
+    console.log(`Signs: ${signs.length}, variants: ${variantCount}`);
+    console.log(`Variants with a signing segment: ${trimmedCount} of ${variantCount}`);
+    console.log(`Variants probed from local files: ${probedCount} of ${variantCount}`);
+}
 
 async function main() {
+    const splits = loadSplits();
+
+    if (process.argv.includes('--update-existing')) {
+        await updateExistingSigns(splits);
+        return;
+    }
+
     console.log('Starting WLASL import to JSON...');
 
     if (!fs.existsSync(METADATA_PATH)) {
@@ -20,6 +196,7 @@ async function main() {
     const signs: any[] = [];
     let importedCount = 0;
     let skippedCount = 0;
+    let variantCount = 0;
 
     // Ensure directory exists
     const dbDir = path.dirname(DB_JSON_PATH);
@@ -27,48 +204,47 @@ async function main() {
         fs.mkdirSync(dbDir, { recursive: true });
     }
 
+    const isLocal = (inst: any) => fs.existsSync(path.join(VIDEOS_DIR, `${inst.video_id}.mp4`));
+
     for (const entry of data) {
         const word = entry.gloss.toUpperCase();
 
-        // 1. Try to find a local video instance first
-        const localInstance = entry.instances.find((inst: any) => {
-            const videoPath = path.join(VIDEOS_DIR, `${inst.video_id}.mp4`);
-            return fs.existsSync(videoPath);
-        });
+        // Every instance becomes a variant. Local videos come first so the preferred
+        // variant is served by us; external URLs are the fallback.
+        const localInstances = entry.instances.filter(isLocal);
+        const externalInstances = entry.instances.filter((inst: any) => !localInstances.includes(inst) && inst.url && inst.url.startsWith('http'));
 
-        if (localInstance) {
-            const videoUrl = `${BASE_URL}/${localInstance.video_id}.mp4`;
-            signs.push({
-                word,
-                videoUrl,
-                durationMs: null,
-                dominantHand: 'RIGHT',
-            });
-            importedCount++;
-        } else {
-            // 2. Fallback: Use the first instance with a valid external URL
-            const externalInstance = entry.instances.find((inst: any) => inst.url && inst.url.startsWith('http'));
-
-            if (externalInstance) {
-                signs.push({
-                    word,
-                    videoUrl: externalInstance.url,
-                    durationMs: null,
-                    dominantHand: 'RIGHT',
-                });
-                importedCount++;
-            } else {
-                skippedCount++;
-            }
+        const variants: SignVariant[] = [];
+        const seenUrls = new Set<string>();
+        for (const inst of [...localInstances, ...externalInstances]) {
+            const videoUrl = localInstances.includes(inst) ? `${inst.video_id}.mp4` : inst.url;
+            if (seenUrls.has(videoUrl)) continue;
+            seenUrls.add(videoUrl);
+
+            variants.push(await toVariant(
+                { videoUrl, signerId: inst.signer_id ?? null, subset: inst.split ?? null, source: inst.source ?? null },
+                splits.get(inst.video_id),
+                inst.fps
+            ));
         }
+
+        if (variants.length === 0) {
+            skippedCount++;
+            continue;
+        }
+
+        const [preferred, ...alternates] = variants;
+        signs.push({ word, ...preferred, dominantHand: 'RIGHT', alternates });
+        importedCount++;
+        variantCount += variants.length;
     }
 
     fs.writeFileSync(DB_JSON_PATH, JSON.stringify(signs, null, 2));
 
     console.log(`Import complete!`);
     console.log(`Saved to ${DB_JSON_PATH}`);
-    console.log(`Total Imported: ${importedCount}`);
-    console.log(`Total Skipped (no local video): ${skippedCount}`);
+    console.log(`Total Imported: ${importedCount} signs, ${variantCount} variants`);
+    console.log(`Total Skipped (no usable video): ${skippedCount}`);
 }
 
 main()
@@ -0,0 +1,90 @@
+import path from 'path';
+import type { SignLanguage } from '../../shared/signLanguages';
+
+/**
+ * Server Configuration
+ *
+ * Everything environment-dependent is resolved here, once, at startup.
+ * Invalid values fail fast instead of silently falling back.
+ */
+
+export type DatabaseBackend = 'sqlite' | 'memory';
+
+const DATABASE_BACKENDS: DatabaseBackend[] = ['sqlite', 'memory'];
+
+const isProduction = process.env.NODE_ENV === 'production';
+
+const resolveDatabaseBackend = (): DatabaseBackend => {
+    const value = process.env.DB_BACKEND;
+    // Development defaults to the in-memory store; production must be a real database
+    if (!value) return isProduction ? 'sqlite' : 'memory';
+    if (!DATABASE_BACKENDS.includes(value as DatabaseBackend)) {
+        throw new Error(`Invalid DB_BACKEND "${value}". Expected one of: ${DATABASE_BACKENDS.join(', ')}.`);
+    }
+    if (isProduction && value === 'memory') {
+        throw new Error('DB_BACKEND=memory is not allowed in production.');
+    }
+    return value as DatabaseBackend;
+};
+
+const resolvePositiveInteger = (name: string, fallback: number): number => {
+    const value = process.env[name];
+    if (!value) return fallback;
+    const parsed = Number(value);
+    if (!Number.isInteger(parsed) || parsed <= 0) {
+        throw new Error(`Invalid ${name} "${value}". Expected a positive integer.`);
+    }
+    return parsed;
+};
+
+const resolveVideoBaseUrl = (): string => {
+    const value = process.env.VIDEO_BASE_URL;
+    // Development serves the clips from this server; production must say where clients reach them
+    if (!value) {
+        if (isProduction) {
+            throw new Error('VIDEO_BASE_URL is required in production (e.g. https://cdn.example.com/videos).');
+        }
+        return 'http://localhost:3000/videos';
+    }
+    // A path is allowed for deployments where the API and the videos share an origin
+    if (!value.startsWith('/') && !URL.canParse(value)) {
+        throw new Error(`Invalid VIDEO_BASE_URL "${value}". Expected an absolute URL or a path.`);
+    }
+    return value.replace(/\/+$/, '');
+};
+
+const videoRoot = path.join(process.cwd(), 'backend', 'public', 'videos');
+
+export const config = {
+    isProduction,
+    // Bearer token for the management routes; without it they are open in development and disabled in production
+    adminToken: process.env.ADMIN_TOKEN || null,
+    database: {
+        backend: resolveDatabaseBackend(),
+        sqlitePath: process.env.SQLITE_PATH || path.join(process.cwd(), 'backend', 'data', 'isl.sqlite'),
+        // Signs produced by the importers (import_wlasl.ts, import_include.ts), per language.
+        // Each file is loaded on startup when the store has no signs in its language yet.
+        seedFiles: {
+            ASL: path.join(process.cwd(), 'backend', 'src', 'data', 'signs.json'),
+            ISL: path.join(process.cwd(), 'backend', 'src', 'data', 'signs.isl.json'),
+        } satisfies Record<SignLanguage, string>,
+        // Demo sentences for curated mode, loaded into an empty sentence store on startup
+        sentenceSeedFile: path.join(process.cwd(), 'backend', 'src', 'data', 'supported_sentences.json'),
+    },
+    videos: {
+        // Served under /videos/; the video keys stored on signs are relative to it
+        root: videoRoot,
+        baseUrl: resolveVideoBaseUrl(),
+        // When set, video URLs expire and are HMAC-signed, and /videos/ refuses requests without a valid signature
+        urlSigningSecret: process.env.VIDEO_URL_SECRET || null,
+        urlTtlSeconds: resolvePositiveInteger('VIDEO_URL_TTL_SECONDS', 3600),
+    },
+    uploads: {
+        // Contributed clips wait here, outside the static video route, until a reviewer decides
+        pendingDir: process.env.UPLOADS_PENDING_DIR || path.join(process.cwd(), 'backend', 'data', 'uploads'),
+        // Approved clips are moved here and served with the other videos
+        approvedDir: path.join(videoRoot, 'contributions'),
+        maxFileBytes: resolvePositiveInteger('UPLOAD_MAX_BYTES', 50 * 1024 * 1024),
+        maxDurationMs: resolvePositiveInteger('UPLOAD_MAX_DURATION_MS', 30_000),
+    },
+};
@@ -0,0 +1,32 @@
+import { FastifyReply, FastifyRequest } from 'fastify';
+import crypto from 'crypto';
+import { config } from '../config';
+
+const tokensMatch = (expected: string, received: string) => {
+    const a = Buffer.from(expected);
+    const b = Buffer.from(received);
+    return a.length === b.length && crypto.timingSafeEqual(a, b);
+};
+
+/**
+ * preHandler for management routes: requires "Authorization: Bearer <ADMIN_TOKEN>".
+ * Without a configured token the routes are open in development and refused in production.
+ */
+export async function requireAdmin(request: FastifyRequest, reply: FastifyReply) {
+    if (!config.adminToken) {
+        if (!config.isProduction) return;
+        return reply.code(503).send({
+            error: 'Service Unavailable',
+            message: 'The management API is disabled because ADMIN_TOKEN is not configured.'
+        });
+    }
+
+    const header = request.headers.authorization || '';
+    const token = header.startsWith('Bearer ') ? header.slice('Bearer '.length) : '';
+    if (!tokensMatch(config.adminToken, token)) {
+        return reply.code(401).send({
+            error: 'Unauthorized',
+            message: 'A valid admin token is required.'
+        });
+    }
+}
@@ -6,6 +6,7 @@ async function corsPlugin(fastify: FastifyInstance) {
     await fastify.register(fastifyCors, {
         origin: true,
         methods: ['GET', 'POST', 'PUT', 'DELETE'],
+        exposedHeaders: ['ETag', 'X-Vocabulary-Version'],
     });
 }
 
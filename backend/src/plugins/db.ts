@@ -1,107 +1,64 @@
 import { FastifyInstance } from 'fastify';
 import fp from 'fastify-plugin';
 import fs from 'fs';
-import path from 'path';
+import { SIGN_LANGUAGE_CODES, type SignLanguage } from '../../../shared/signLanguages';
+import { config } from '../config';
+import { createRepositories, type NewSign, type Repositories } from '../repositories';
+import { supportedSentencesService, type SentenceInput } from '../services/supported-sentences.service';
 
-// Mocking PrismaClient type and class to resolve generation issues in restricted environments
-
-/**
- * Minimal interface for PrismaClient to maintain basic type safety during mocking.
- */
-interface IPrismaClient {
-    sign: {
-        findMany: (args?: any) => Promise<any[]>;
-        findFirst: (args?: any) => Promise<any | null>;
-    };
-    supportedSentence: {
-        findMany: (args?: any) => Promise<any[]>;
-    };
-    $connect: () => Promise<void>;
-    $disconnect: () => Promise<void>;
+declare module 'fastify' {
+    interface FastifyInstance {
+        db: Repositories;
+    }
 }
 
 /**
- * Fallback PrismaClient if generation hasn't happened yet.
+ * Loads the imported signs of a language when the store has none in that language.
  */
-class PrismaClientMock implements IPrismaClient {
-    private signsData: any[] = [];
-    private dbLoaded = false;
+async function seedSigns(db: Repositories, language: SignLanguage) {
+    if (await db.signs.count({ language }) > 0) return;
 
-    private loadData() {
-        if (this.dbLoaded) return;
-        const dbPath = path.join(process.cwd(), 'backend', 'src', 'data', 'signs.json');
-        if (fs.existsSync(dbPath)) {
-            try {
-                this.signsData = JSON.parse(fs.readFileSync(dbPath, 'utf-8'));
-                console.log(`✅ [Mock DB] Loaded ${this.signsData.length} signs from JSON.`);
-            } catch (err) {
-                console.error('❌ [Mock DB] Failed to parse signs.json:', err);
-            }
-        }
-        this.dbLoaded = true;
+    const seedFile = config.database.seedFiles[language];
+    if (!fs.existsSync(seedFile)) {
+        console.warn(`⚠️ [DB] No ${language} signs in the store and ${seedFile} does not exist. Run its importer first.`);
+        return;
     }
 
-    sign = {
-        findMany: async (args?: any) => {
-            this.loadData();
-            return this.signsData;
-        },
-        findFirst: async (args?: any) => {
-            this.loadData();
-            if (args?.where?.word?.equals) {
-                const searchWord = args.where.word.equals.toUpperCase();
-                return this.signsData.find(s => s.word === searchWord) || null;
-            }
-            return null;
-        },
-    };
-    supportedSentence = {
-        findMany: async () => [],
-    };
-    $connect = async () => {
-        console.warn('⚠️ [Prisma] Using Mock Client: Loading data from local JSON fallback.');
-        this.loadData();
-    };
-    $disconnect = async () => { };
+    const signs: NewSign[] = JSON.parse(fs.readFileSync(seedFile, 'utf-8'));
+    const count = await db.signs.upsertMany(signs.map(sign => ({ ...sign, language })));
+    console.log(`✅ [DB] Seeded ${count} ${language} signs from ${seedFile}.`);
 }
 
-declare module 'fastify' {
-    interface FastifyInstance {
-        prisma: IPrismaClient;
-    }
-}
-
-async function prismaPlugin(fastify: FastifyInstance) {
-    const isProd = process.env.NODE_ENV === 'production';
-    let PrismaConstructor: (new () => IPrismaClient) | null = null;
+/**
+ * Loads the demo sentences into an empty sentence store. Sentences with unknown words are skipped.
+ */
+async function seedSentences(db: Repositories) {
+    const seedFile = config.database.sentenceSeedFile;
+    if (await db.sentences.count() > 0 || !fs.existsSync(seedFile)) return;
 
-    try {
-        // Try to load the generated client dynamically
-        // @ts-ignore
-        const { PrismaClient } = await import('@prisma/client');
-        if (PrismaClient) {
-            PrismaConstructor = PrismaClient as unknown as new () => IPrismaClient;
-        }
-    } catch (err) {
-        if (isProd) {
-            throw new Error('[Prisma] Database client missing in production environment. Run "npx prisma generate".');
-        }
-        console.warn('⚠️ [Prisma] Could not load @prisma/client, falling back to mock.');
-    }
+    const inputs: SentenceInput[] = JSON.parse(fs.readFileSync(seedFile, 'utf-8'));
+    const { sentences, errors } = await supportedSentencesService.validate(db, inputs);
+    errors.forEach(err => console.warn(`⚠️ [DB] Skipping seed sentence "${err.gloss}": ${err.message}`));
 
-    if (!PrismaConstructor) {
-        PrismaConstructor = PrismaClientMock;
-    }
+    const created = await db.sentences.createMany(sentences);
+    console.log(`✅ [DB] Seeded ${created.length} supported sentences from ${seedFile}.`);
+}
 
-    const prisma = new PrismaConstructor();
+async function databasePlugin(fastify: FastifyInstance) {
+    const { backend, sqlitePath } = config.database;
+    console.log(`🗄️ [DB] Using ${backend} backend${backend === 'sqlite' ? ` at ${sqlitePath}` : ''}.`);
 
-    await prisma.$connect();
+    const db = createRepositories();
+    for (const language of SIGN_LANGUAGE_CODES) {
+        await seedSigns(db, language);
+    }
+    await seedSentences(db);
 
-    fastify.decorate('prisma', prisma);
+    fastify.decorate('db', db);
 
     fastify.addHook('onClose', async (fastifyInstance) => {
-        await fastifyInstance.prisma.$disconnect();
+        await fastifyInstance.db.close();
     });
 }
 
-export const dbPlugin = fp(prismaPlugin);
+export const dbPlugin = fp(databasePlugin);
@@ -0,0 +1,32 @@
+import { FastifyInstance } from 'fastify';
+import fastifyStatic from '@fastify/static';
+import { config } from '../config';
+import { videoUrlService } from '../services/video-url.service';
+
+/**
+ * Serves the video root under /videos/. With signed URLs enabled, every request must carry
+ * an unexpired signature for the file it asks for (see video-url.service.ts).
+ *
+ * Not wrapped in fastify-plugin, so the check only applies to the video routes.
+ */
+export async function videosPlugin(fastify: FastifyInstance) {
+    if (config.videos.urlSigningSecret) {
+        fastify.addHook('onRequest', async (request, reply) => {
+            // The wildcard is the requested path below /videos/, already URL-decoded: the video key
+            const key = (request.params as { '*': string })['*'];
+            const { expires, sig } = request.query as { expires?: string; sig?: string };
+            const check = videoUrlService.verify(key, expires, sig);
+            if (check === 'VALID') return;
+
+            return reply.code(403).send({
+                error: 'Forbidden',
+                message: check === 'EXPIRED' ? 'This video link has expired.' : 'This video link is not signed or its signature is invalid.'
+            });
+        });
+    }
+
+    await fastify.register(fastifyStatic, {
+        root: config.videos.root,
+        prefix: '/videos/',
+    });
+}
@@ -0,0 +1,9 @@
+/**
+ * Raised when a write would violate a unique key (sign word, sentence gloss).
+ */
+export class DuplicateKeyError extends Error {
+    constructor(public readonly entity: string, public readonly key: string) {
+        super(`${entity} "${key}" already exists`);
+        this.name = 'DuplicateKeyError';
+    }
+}
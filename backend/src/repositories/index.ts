@@ -0,0 +1,19 @@
+import { config } from '../config';
+import { createInMemoryRepositories } from './memory.repository';
+import { createSqliteRepositories } from './sqlite.repository';
+import type { Repositories } from './types';
+
+export * from './types';
+export { DuplicateKeyError } from './errors';
+
+/**
+ * Creates the repositories for the configured database backend (see config.ts).
+ */
+export const createRepositories = (database = config.database): Repositories => {
+    switch (database.backend) {
+        case 'sqlite':
+            return createSqliteRepositories(database.sqlitePath);
+        case 'memory':
+            return createInMemoryRepositories();
+    }
+};
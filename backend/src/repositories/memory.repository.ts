@@ -0,0 +1,288 @@
+import crypto from 'crypto';
+import { DEFAULT_SIGN_LANGUAGE } from '../../../shared/signLanguages';
+import { DuplicateKeyError } from './errors';
+import type {
+    FindOptions,
+    NewSign,
+    NewSignSubmission,
+    NewSupportedSentence,
+    Repositories,
+    SentenceFilter,
+    SentenceRepository,
+    Sign,
+    SignFilter,
+    SignLanguage,
+    SignRepository,
+    SignSubmission,
+    SubmissionFilter,
+    SubmissionRepository,
+    SubmissionReview,
+    SupportedSentence,
+} from './types';
+
+/**
+ * In-memory Repositories
+ *
+ * Used for local development and scripts. Behaves like the SQLite implementation:
+ * filters, projections, case-insensitive matching, pagination and unique keys.
+ * Data lives only as long as the process.
+ */
+
+const project = <T, K extends keyof T>(row: T, select?: readonly K[]): Pick<T, K> => {
+    if (!select) return { ...row };
+    const projected = {} as Pick<T, K>;
+    select.forEach(key => {
+        projected[key] = row[key];
+    });
+    return projected;
+};
+
+const paginate = <T>(rows: T[], options: { skip?: number; take?: number }): T[] => {
+    const start = options.skip ?? 0;
+    return options.take === undefined ? rows.slice(start) : rows.slice(start, start + options.take);
+};
+
+const normalizeWord = (word: string) => word.trim().toUpperCase();
+
+const signKey = (language: SignLanguage, word: string) => `${language}:${normalizeWord(word)}`;
+
+const copySign = (sign: Sign): Sign => ({ ...sign, alternates: sign.alternates.map(variant => ({ ...variant })) });
+
+export class InMemorySignRepository implements SignRepository {
+    // Keyed by language and uppercase word; Map iteration keeps insertion order
+    private signs = new Map<string, Sign>();
+
+    private filter(filter: SignFilter = {}): Sign[] {
+        let rows = Array.from(this.signs.values());
+        if (filter.language) {
+            rows = rows.filter(sign => sign.language === filter.language);
+        }
+        if (filter.words) {
+            const words = new Set(filter.words.map(normalizeWord));
+            rows = rows.filter(sign => words.has(sign.word));
+        }
+        if (filter.contains) {
+            const needle = filter.contains.toUpperCase();
+            rows = rows.filter(sign => sign.word.includes(needle));
+        }
+        return rows;
+    }
+
+    async findMany<K extends keyof Sign = keyof Sign>(filter?: SignFilter, options: FindOptions<Sign, K> = {}): Promise<Pick<Sign, K>[]> {
+        return paginate(this.filter(filter), options).map(sign => project(copySign(sign), options.select));
+    }
+
+    async findByWord(word: string, language: SignLanguage = DEFAULT_SIGN_LANGUAGE): Promise<Sign | null> {
+        const sign = this.signs.get(signKey(language, word));
+        return sign ? copySign(sign) : null;
+    }
+
+    async count(filter?: SignFilter): Promise<number> {
+        return this.filter(filter).length;
+    }
+
+    async upsert(input: NewSign): Promise<Sign> {
+        const language = input.language ?? DEFAULT_SIGN_LANGUAGE;
+        const word = normalizeWord(input.word);
+        const existing = this.signs.get(signKey(language, word));
+        const sign: Sign = {
+            id: existing?.id ?? crypto.randomUUID(),
+            language,
+            word,
+            videoUrl: input.videoUrl,
+            signerId: input.signerId ?? null,
+            subset: input.subset ?? null,
+            source: input.source ?? null,
+            durationMs: input.durationMs ?? null,
+            startMs: input.startMs ?? null,
+            endMs: input.endMs ?? null,
+            width: input.width ?? null,
+            height: input.height ?? null,
+            fps: input.fps ?? null,
+            dominantHand: input.dominantHand ?? 'RIGHT',
+            alternates: (input.alternates ?? []).map(variant => ({ ...variant })),
+            createdAt: existing?.createdAt ?? new Date().toISOString(),
+        };
+        this.signs.set(signKey(language, word), sign);
+        return copySign(sign);
+    }
+
+    async upsertMany(signs: NewSign[]): Promise<number> {
+        for (const sign of signs) {
+            await this.upsert(sign);
+        }
+        return signs.length;
+    }
+}
+
+export class InMemorySentenceRepository implements SentenceRepository {
+    // Keyed by id; Map iteration keeps insertion order
+    private sentences = new Map<string, SupportedSentence>();
+
+    private copy(sentence: SupportedSentence): SupportedSentence {
+        return { ...sentence, words: [...sentence.words] };
+    }
+
+    private findIdByGloss(gloss: string, language: SignLanguage): string | undefined {
+        return Array.from(this.sentences.values()).find(sentence => sentence.gloss === gloss && sentence.language === language)?.id;
+    }
+
+    private filter(filter: SentenceFilter = {}): SupportedSentence[] {
+        const rows = Array.from(this.sentences.values());
+        return filter.language ? rows.filter(sentence => sentence.language === filter.language) : rows;
+    }
+
+    async findMany<K extends keyof SupportedSentence = keyof SupportedSentence>(filter?: SentenceFilter, options: FindOptions<SupportedSentence, K> = {}): Promise<Pick<SupportedSentence, K>[]> {
+        return paginate(this.filter(filter), options)
+            .map(sentence => project(this.copy(sentence), options.select));
+    }
+
+    async findById(id: string): Promise<SupportedSentence | null> {
+        const sentence = this.sentences.get(id);
+        return sentence ? this.copy(sentence) : null;
+    }
+
+    async findByGloss(gloss: string, language: SignLanguage = DEFAULT_SIGN_LANGUAGE): Promise<SupportedSentence | null> {
+        const id = this.findIdByGloss(gloss, language);
+        return id ? this.copy(this.sentences.get(id)!) : null;
+    }
+
+    async count(filter?: SentenceFilter): Promise<number> {
+        return this.filter(filter).length;
+    }
+
+    async create(input: NewSupportedSentence): Promise<SupportedSentence> {
+        const [sentence] = await this.createMany([input]);
+        return sentence;
+    }
+
+    async createMany(inputs: NewSupportedSentence[], options: { replaceExisting?: boolean } = {}): Promise<SupportedSentence[]> {
+        // Check every key before writing anything, so a failed batch leaves no partial state
+        const seen = new Set<string>();
+        for (const input of inputs) {
+            const language = input.language ?? DEFAULT_SIGN_LANGUAGE;
+            const key = `${language}:${input.gloss}`;
+            if (seen.has(key) || (!options.replaceExisting && this.findIdByGloss(input.gloss, language))) {
+                throw new DuplicateKeyError(`${language} supported sentence`, input.gloss);
+            }
+            seen.add(key);
+        }
+
+        return inputs.map(input => {
+            const language = input.language ?? DEFAULT_SIGN_LANGUAGE;
+            const existing = this.findIdByGloss(input.gloss, language);
+            const sentence: SupportedSentence = existing
+                ? { ...this.sentences.get(existing)!, words: [...input.words] }
+                : { id: crypto.randomUUID(), language, gloss: input.gloss, words: [...input.words], createdAt: new Date().toISOString() };
+            this.sentences.set(sentence.id, sentence);
+            return this.copy(sentence);
+        });
+    }
+
+    async update(id: string, input: NewSupportedSentence): Promise<SupportedSentence | null> {
+        const existing = this.sentences.get(id);
+        if (!existing) return null;
+
+        const language = input.language ?? existing.language;
+        const owner = this.findIdByGloss(input.gloss, language);
+        if (owner && owner !== id) {
+            throw new DuplicateKeyError(`${language} supported sentence`, input.gloss);
+        }
+
+        const sentence: SupportedSentence = { ...existing, language, gloss: input.gloss, words: [...input.words] };
+        this.sentences.set(id, sentence);
+        return this.copy(sentence);
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.sentences.delete(id);
+    }
+}
+
+export class InMemorySubmissionRepository implements SubmissionRepository {
+    // Keyed by id; Map iteration keeps insertion order
+    private submissions = new Map<string, SignSubmission>();
+
+    private copy(submission: SignSubmission): SignSubmission {
+        return { ...submission, rejectionReasons: [...submission.rejectionReasons] };
+    }
+
+    private filter(filter: SubmissionFilter = {}): SignSubmission[] {
+        let rows = Array.from(this.submissions.values());
+        if (filter.language) {
+            rows = rows.filter(submission => submission.language === filter.language);
+        }
+        if (filter.status) {
+            rows = rows.filter(submission => submission.status === filter.status);
+        }
+        return rows;
+    }
+
+    async findMany<K extends keyof SignSubmission = keyof SignSubmission>(filter?: SubmissionFilter, options: FindOptions<SignSubmission, K> = {}): Promise<Pick<SignSubmission, K>[]> {
+        return paginate(this.filter(filter), options)
+            .map(submission => project(this.copy(submission), options.select));
+    }
+
+    async findById(id: string): Promise<SignSubmission | null> {
+        const submission = this.submissions.get(id);
+        return submission ? this.copy(submission) : null;
+    }
+
+    async count(filter?: SubmissionFilter): Promise<number> {
+        return this.filter(filter).length;
+    }
+
+    async create(input: NewSignSubmission): Promise<SignSubmission> {
+        const submission: SignSubmission = {
+            id: crypto.randomUUID(),
+            language: input.language ?? DEFAULT_SIGN_LANGUAGE,
+            word: normalizeWord(input.word),
+            status: 'PENDING',
+            fileName: input.fileName,
+            videoUrl: null,
+            signerName: input.signerName,
+            signerId: input.signerId ?? null,
+            dominantHand: input.dominantHand ?? 'RIGHT',
+            durationMs: input.durationMs ?? null,
+            width: input.width ?? null,
+            height: input.height ?? null,
+            fps: input.fps ?? null,
+            rejectionReasons: [],
+            reviewNote: null,
+            reviewedAt: null,
+            createdAt: new Date().toISOString(),
+        };
+        this.submissions.set(submission.id, submission);
+        return this.copy(submission);
+    }
+
+    async review(id: string, review: SubmissionReview): Promise<SignSubmission | null> {
+        const existing = this.submissions.get(id);
+        if (!existing || existing.status !== 'PENDING') return null;
+
+        const submission: SignSubmission = {
+            ...existing,
+            status: review.status,
+            videoUrl: review.videoUrl ?? null,
+            rejectionReasons: [...(review.rejectionReasons ?? [])],
+            reviewNote: review.reviewNote ?? null,
+            reviewedAt: new Date().toISOString(),
+        };
+        this.submissions.set(id, submission);
+        return this.copy(submission);
+    }
+
+    async reopen(id: string): Promise<void> {
+        const existing = this.submissions.get(id);
+        if (!existing || existing.status !== 'APPROVED') return;
+
+        this.submissions.set(id, { ...existing, status: 'PENDING', videoUrl: null, reviewNote: null, reviewedAt: null });
+    }
+}
+
+export const createInMemoryRepositories = (): Repositories => ({
+    signs: new InMemorySignRepository(),
+    sentences: new InMemorySentenceRepository(),
+    submissions: new InMemorySubmissionRepository(),
+    close: async () => { },
+});
@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DuplicateKeyError } from './errors';
+import { createInMemoryRepositories } from './memory.repository';
+import { createSqliteRepositories } from './sqlite.repository';
+import type { Repositories, SignVariant } from './types';
+
+/**
+ * Both implementations must behave the same; every case runs against each of them.
+ */
+const implementations: [string, () => Repositories][] = [
+    ['memory', createInMemoryRepositories],
+    ['sqlite', () => createSqliteRepositories(':memory:')],
+];
+
+const variant = (videoUrl: string): SignVariant => ({
+    videoUrl,
+    signerId: 7,
+    subset: 'train',
+    source: 'aslpro',
+    durationMs: 1200,
+    startMs: 100,
+    endMs: 1300,
+    width: 640,
+    height: 480,
+    fps: 25,
+});
+
+describe.each(implementations)('%s repositories', (_name, create) => {
+    let db: Repositories;
+
+    beforeEach(() => {
+        db = create();
+    });
+
+    afterEach(async () => {
+        await db.close();
+    });
+
+    describe('signs', () => {
+        it('updates the sign of a word instead of adding another one', async () => {
+            const created = await db.signs.upsert({ word: 'book', videoUrl: '1.mp4' });
+            const updated = await db.signs.upsert({ word: 'BOOK', videoUrl: '2.mp4' });
+
+            expect(created.word).toBe('BOOK');
+            expect(updated.id).toBe(created.id);
+            expect(updated.videoUrl).toBe('2.mp4');
+            expect(await db.signs.count()).toBe(1);
+        });
+
+        it('fills in defaults and keeps alternates', async () => {
+            await db.signs.upsert({ word: 'BOOK', videoUrl: '1.mp4', alternates: [variant('2.mp4'), variant('3.mp4')] });
+
+            const sign = await db.signs.findByWord('BOOK');
+            expect(sign).toMatchObject({ language: 'ASL', dominantHand: 'RIGHT', signerId: null, startMs: null });
+            expect(sign?.alternates).toEqual([variant('2.mp4'), variant('3.mp4')]);
+        });
+
+        it('finds words case-insensitively within one language', async () => {
+            await db.signs.upsert({ word: 'BOOK', videoUrl: 'asl.mp4' });
+            await db.signs.upsert({ word: 'BOOK', videoUrl: 'isl.mp4', language: 'ISL' });
+
+            expect((await db.signs.findByWord('book'))?.videoUrl).toBe('asl.mp4');
+            expect((await db.signs.findByWord('Book', 'ISL'))?.videoUrl).toBe('isl.mp4');
+            expect(await db.signs.findByWord('PEN')).toBeNull();
+            expect(await db.signs.count({ language: 'ISL' })).toBe(1);
+        });
+
+        it('filters, projects and paginates in insertion order', async () => {
+            await db.signs.upsertMany(['BOOK', 'BOOKSTORE', 'COOK', 'PEN'].map(word => ({ word, videoUrl: `${word}.mp4` })));
+
+            expect(await db.signs.findMany({ words: ['pen', 'book', 'missing'] }, { select: ['word'] }))
+                .toEqual([{ word: 'BOOK' }, { word: 'PEN' }]);
+            expect((await db.signs.findMany({ contains: 'ook' })).map(sign => sign.word)).toEqual(['BOOK', 'BOOKSTORE', 'COOK']);
+            expect((await db.signs.findMany({}, { skip: 1, take: 2 })).map(sign => sign.word)).toEqual(['BOOKSTORE', 'COOK']);
+            expect(await db.signs.count({ contains: 'ook' })).toBe(3);
+        });
+    });
+
+    describe('supported sentences', () => {
+        it('rejects a gloss taken in the same language only', async () => {
+            await db.sentences.create({ gloss: 'HELLO YOU', words: ['HELLO', 'YOU'] });
+
+            await expect(db.sentences.create({ gloss: 'HELLO YOU', words: ['HELLO', 'YOU'] })).rejects.toBeInstanceOf(DuplicateKeyError);
+            await db.sentences.create({ gloss: 'HELLO YOU', words: ['HELLO', 'YOU'], language: 'ISL' });
+            expect(await db.sentences.count()).toBe(2);
+            expect((await db.sentences.findByGloss('HELLO YOU', 'ISL'))?.language).toBe('ISL');
+        });
+
+        it('creates a batch completely or not at all', async () => {
+            await db.sentences.create({ gloss: 'THANK YOU', words: ['THANK YOU'] });
+
+            await expect(db.sentences.createMany([
+                { gloss: 'GOOD MORNING', words: ['GOOD', 'MORNING'] },
+                { gloss: 'THANK YOU', words: ['THANK', 'YOU'] },
+            ])).rejects.toBeInstanceOf(DuplicateKeyError);
+            expect(await db.sentences.count()).toBe(1);
+
+            const replaced = await db.sentences.createMany([
+                { gloss: 'GOOD MORNING', words: ['GOOD', 'MORNING'] },
+                { gloss: 'THANK YOU', words: ['THANK', 'YOU'] },
+            ], { replaceExisting: true });
+            expect(replaced.map(sentence => sentence.words)).toEqual([['GOOD', 'MORNING'], ['THANK', 'YOU']]);
+            expect(await db.sentences.count()).toBe(2);
+        });
+
+        it('updates and deletes by id', async () => {
+            const hello = await db.sentences.create({ gloss: 'HELLO', words: ['HELLO'], language: 'ISL' });
+            await db.sentences.create({ gloss: 'BYE', words: ['BYE'], language: 'ISL' });
+
+            const updated = await db.sentences.update(hello.id, { gloss: 'HELLO FRIEND', words: ['HELLO', 'FRIEND'] });
+            expect(updated).toMatchObject({ id: hello.id, language: 'ISL', gloss: 'HELLO FRIEND' });
+            await expect(db.sentences.update(hello.id, { gloss: 'BYE', words: ['BYE'] })).rejects.toBeInstanceOf(DuplicateKeyError);
+            expect(await db.sentences.update('missing', { gloss: 'X', words: ['X'] })).toBeNull();
+
+            expect(await db.sentences.delete(hello.id)).toBe(true);
+            expect(await db.sentences.delete(hello.id)).toBe(false);
+            expect(await db.sentences.findById(hello.id)).toBeNull();
+        });
+    });
+
+    describe('submissions', () => {
+        it('decides a pending submission once', async () => {
+            const submission = await db.submissions.create({ word: 'book', fileName: 'a.mp4', signerName: 'Asha' });
+            expect(submission).toMatchObject({ word: 'BOOK', status: 'PENDING', videoUrl: null, rejectionReasons: [] });
+
+            const rejected = await db.submissions.review(submission.id, { status: 'REJECTED', rejectionReasons: ['WRONG_SIGN'], reviewNote: 'Try again' });
+            expect(rejected).toMatchObject({ status: 'REJECTED', rejectionReasons: ['WRONG_SIGN'], reviewNote: 'Try again' });
+            expect(rejected?.reviewedAt).not.toBeNull();
+
+            expect(await db.submissions.review(submission.id, { status: 'APPROVED', videoUrl: 'contributions/a.mp4' })).toBeNull();
+            expect(await db.submissions.review('missing', { status: 'APPROVED' })).toBeNull();
+        });
+
+        it('puts an approved submission back in the queue on reopen', async () => {
+            const approved = await db.submissions.create({ word: 'BOOK', fileName: 'a.mp4', signerName: 'Asha' });
+            const rejected = await db.submissions.create({ word: 'PEN', fileName: 'b.mp4', signerName: 'Asha' });
+            await db.submissions.review(approved.id, { status: 'APPROVED', videoUrl: 'contributions/a.mp4' });
+            await db.submissions.review(rejected.id, { status: 'REJECTED', rejectionReasons: ['OTHER'] });
+
+            await db.submissions.reopen(approved.id);
+            await db.submissions.reopen(rejected.id);
+
+            expect(await db.submissions.findById(approved.id)).toMatchObject({ status: 'PENDING', videoUrl: null, reviewedAt: null });
+            expect((await db.submissions.findById(rejected.id))?.status).toBe('REJECTED');
+            expect((await db.submissions.findMany({ status: 'PENDING' }, { select: ['word'] }))).toEqual([{ word: 'BOOK' }]);
+            expect(await db.submissions.count({ status: 'REJECTED' })).toBe(1);
+        });
+    });
+});
@@ -0,0 +1,471 @@
+import Database from 'better-sqlite3';
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { DEFAULT_SIGN_LANGUAGE } from '../../../shared/signLanguages';
+import { DuplicateKeyError } from './errors';
+import type {
+    FindOptions,
+    NewSign,
+    NewSignSubmission,
+    NewSupportedSentence,
+    Repositories,
+    SentenceFilter,
+    SentenceRepository,
+    Sign,
+    SignFilter,
+    SignLanguage,
+    SignRepository,
+    SignSubmission,
+    SubmissionFilter,
+    SubmissionRepository,
+    SubmissionReview,
+    SupportedSentence,
+} from './types';
+
+/**
+ * SQLite Repositories
+ *
+ * Persistent store backed by a single SQLite file. The schema is created on open.
+ * Within a language, words are unique case-insensitively (COLLATE NOCASE) and glosses are unique as written.
+ */
+
+const SCHEMA = `
+    CREATE TABLE IF NOT EXISTS signs (
+        id            TEXT PRIMARY KEY,
+        language      TEXT NOT NULL DEFAULT '${DEFAULT_SIGN_LANGUAGE}',
+        word          TEXT NOT NULL COLLATE NOCASE,
+        video_url     TEXT NOT NULL,
+        signer_id     INTEGER,
+        subset        TEXT,
+        source        TEXT,
+        duration_ms   INTEGER,
+        start_ms      INTEGER,
+        end_ms        INTEGER,
+        width         INTEGER,
+        height        INTEGER,
+        fps           REAL,
+        dominant_hand TEXT NOT NULL DEFAULT 'RIGHT' CHECK (dominant_hand IN ('LEFT', 'RIGHT', 'BOTH')),
+        alternates    TEXT NOT NULL DEFAULT '[]',
+        created_at    TEXT NOT NULL,
+        UNIQUE (language, word)
+    );
+
+    CREATE TABLE IF NOT EXISTS supported_sentences (
+        id         TEXT PRIMARY KEY,
+        language   TEXT NOT NULL DEFAULT '${DEFAULT_SIGN_LANGUAGE}',
+        gloss      TEXT NOT NULL,
+        words      TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        UNIQUE (language, gloss)
+    );
+
+    CREATE TABLE IF NOT EXISTS sign_submissions (
+        id                TEXT PRIMARY KEY,
+        language          TEXT NOT NULL,
+        word              TEXT NOT NULL,
+        status            TEXT NOT NULL DEFAULT 'PENDING' CHECK (status IN ('PENDING', 'APPROVED', 'REJECTED')),
+        file_name         TEXT NOT NULL,
+        video_url         TEXT,
+        signer_name       TEXT NOT NULL,
+        signer_id         INTEGER,
+        dominant_hand     TEXT NOT NULL DEFAULT 'RIGHT' CHECK (dominant_hand IN ('LEFT', 'RIGHT', 'BOTH')),
+        duration_ms       INTEGER,
+        width             INTEGER,
+        height            INTEGER,
+        fps               REAL,
+        rejection_reasons TEXT NOT NULL DEFAULT '[]',
+        review_note       TEXT,
+        reviewed_at       TEXT,
+        created_at        TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS sign_submissions_status ON sign_submissions (status, language);
+`;
+
+const SIGN_COLUMNS: Record<keyof Sign, string> = {
+    id: 'id',
+    language: 'language',
+    word: 'word',
+    videoUrl: 'video_url',
+    signerId: 'signer_id',
+    subset: 'subset',
+    source: 'source',
+    durationMs: 'duration_ms',
+    startMs: 'start_ms',
+    endMs: 'end_ms',
+    width: 'width',
+    height: 'height',
+    fps: 'fps',
+    dominantHand: 'dominant_hand',
+    alternates: 'alternates',
+    createdAt: 'created_at',
+};
+
+const SENTENCE_COLUMNS: Record<keyof SupportedSentence, string> = {
+    id: 'id',
+    language: 'language',
+    gloss: 'gloss',
+    words: 'words',
+    createdAt: 'created_at',
+};
+
+const SUBMISSION_COLUMNS: Record<keyof SignSubmission, string> = {
+    id: 'id',
+    language: 'language',
+    word: 'word',
+    status: 'status',
+    fileName: 'file_name',
+    videoUrl: 'video_url',
+    signerName: 'signer_name',
+    signerId: 'signer_id',
+    dominantHand: 'dominant_hand',
+    durationMs: 'duration_ms',
+    width: 'width',
+    height: 'height',
+    fps: 'fps',
+    rejectionReasons: 'rejection_reasons',
+    reviewNote: 'review_note',
+    reviewedAt: 'reviewed_at',
+    createdAt: 'created_at',
+};
+
+/**
+ * Builds a SELECT list that aliases snake_case columns to the camelCase record fields.
+ */
+const selectList = <T>(columns: Record<keyof T, string>, select?: readonly (keyof T)[]): string => {
+    const fields = select ?? (Object.keys(columns) as (keyof T)[]);
+    return fields.map(field => `${columns[field]} AS "${String(field)}"`).join(', ');
+};
+
+// LIMIT -1 means "no limit" in SQLite
+const limitClause = (options: { skip?: number; take?: number }) => ({
+    sql: 'LIMIT ? OFFSET ?',
+    params: [options.take ?? -1, options.skip ?? 0],
+});
+
+const escapeLike = (value: string) => value.replace(/[\\%_]/g, match => `\\${match}`);
+
+const isUniqueViolation = (err: unknown) =>
+    typeof err === 'object' && err !== null && (err as { code?: string }).code === 'SQLITE_CONSTRAINT_UNIQUE';
+
+export class SqliteSignRepository implements SignRepository {
+    constructor(private db: Database.Database) { }
+
+    // Alternates are stored as a JSON array
+    private fromRow<T extends Partial<Record<keyof Sign, unknown>>>(row: T): T {
+        return typeof row.alternates === 'string' ? { ...row, alternates: JSON.parse(row.alternates) } : row;
+    }
+
+    private where(filter: SignFilter = {}) {
+        const clauses: string[] = [];
+        const params: unknown[] = [];
+        if (filter.language) {
+            clauses.push('language = ?');
+            params.push(filter.language);
+        }
+        if (filter.words) {
+            if (filter.words.length === 0) {
+                clauses.push('0');
+            } else {
+                clauses.push(`word IN (${filter.words.map(() => '?').join(', ')})`);
+                params.push(...filter.words.map(word => word.trim()));
+            }
+        }
+        if (filter.contains) {
+            // LIKE is case-insensitive for ASCII in SQLite
+            clauses.push(`word LIKE ? ESCAPE '\\'`);
+            params.push(`%${escapeLike(filter.contains)}%`);
+        }
+        return { sql: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+    }
+
+    async findMany<K extends keyof Sign = keyof Sign>(filter?: SignFilter, options: FindOptions<Sign, K> = {}): Promise<Pick<Sign, K>[]> {
+        const where = this.where(filter);
+        const limit = limitClause(options);
+        const rows = this.db
+            .prepare(`SELECT ${selectList(SIGN_COLUMNS, options.select)} FROM signs ${where.sql} ORDER BY rowid ${limit.sql}`)
+            .all(...where.params, ...limit.params) as Pick<Sign, K>[];
+        return rows.map(row => this.fromRow(row));
+    }
+
+    async findByWord(word: string, language: SignLanguage = DEFAULT_SIGN_LANGUAGE): Promise<Sign | null> {
+        const row = this.db
+            .prepare(`SELECT ${selectList(SIGN_COLUMNS)} FROM signs WHERE language = ? AND word = ?`)
+            .get(language, word.trim()) as Sign | undefined;
+        return row ? this.fromRow(row) : null;
+    }
+
+    async count(filter?: SignFilter): Promise<number> {
+        const where = this.where(filter);
+        const row = this.db.prepare(`SELECT COUNT(*) AS count FROM signs ${where.sql}`).get(...where.params) as { count: number };
+        return row.count;
+    }
+
+    private writeSign(input: NewSign): Sign {
+        const row = this.db
+            .prepare(`
+                INSERT INTO signs (id, language, word, video_url, signer_id, subset, source, duration_ms, start_ms, end_ms, width, height, fps, dominant_hand, alternates, created_at)
+                VALUES (@id, @language, @word, @videoUrl, @signerId, @subset, @source, @durationMs, @startMs, @endMs, @width, @height, @fps, @dominantHand, @alternates, @createdAt)
+                ON CONFLICT(language, word) DO UPDATE SET
+                    video_url = excluded.video_url,
+                    signer_id = excluded.signer_id,
+                    subset = excluded.subset,
+                    source = excluded.source,
+                    duration_ms = excluded.duration_ms,
+                    start_ms = excluded.start_ms,
+                    end_ms = excluded.end_ms,
+                    width = excluded.width,
+                    height = excluded.height,
+                    fps = excluded.fps,
+                    dominant_hand = excluded.dominant_hand,
+                    alternates = excluded.alternates
+                RETURNING ${selectList(SIGN_COLUMNS)}
+            `)
+            .get({
+                id: crypto.randomUUID(),
+                language: input.language ?? DEFAULT_SIGN_LANGUAGE,
+                word: input.word.trim().toUpperCase(),
+                videoUrl: input.videoUrl,
+                signerId: input.signerId ?? null,
+                subset: input.subset ?? null,
+                source: input.source ?? null,
+                durationMs: input.durationMs ?? null,
+                startMs: input.startMs ?? null,
+                endMs: input.endMs ?? null,
+                width: input.width ?? null,
+                height: input.height ?? null,
+                fps: input.fps ?? null,
+                dominantHand: input.dominantHand ?? 'RIGHT',
+                alternates: JSON.stringify(input.alternates ?? []),
+                createdAt: new Date().toISOString(),
+            }) as Sign;
+        return this.fromRow(row);
+    }
+
+    async upsert(input: NewSign): Promise<Sign> {
+        return this.writeSign(input);
+    }
+
+    async upsertMany(signs: NewSign[]): Promise<number> {
+        // One transaction instead of one fsync per row
+        this.db.transaction((batch: NewSign[]) => batch.forEach(sign => this.writeSign(sign)))(signs);
+        return signs.length;
+    }
+}
+
+export class SqliteSentenceRepository implements SentenceRepository {
+    constructor(private db: Database.Database) { }
+
+    // Words are stored as a JSON array
+    private fromRow<T extends Partial<Record<keyof SupportedSentence, unknown>>>(row: T): T {
+        return typeof row.words === 'string' ? { ...row, words: JSON.parse(row.words) } : row;
+    }
+
+    private where(filter: SentenceFilter = {}) {
+        return filter.language
+            ? { sql: 'WHERE language = ?', params: [filter.language] }
+            : { sql: '', params: [] };
+    }
+
+    async findMany<K extends keyof SupportedSentence = keyof SupportedSentence>(filter?: SentenceFilter, options: FindOptions<SupportedSentence, K> = {}): Promise<Pick<SupportedSentence, K>[]> {
+        const where = this.where(filter);
+        const limit = limitClause(options);
+        const rows = this.db
+            .prepare(`SELECT ${selectList(SENTENCE_COLUMNS, options.select)} FROM supported_sentences ${where.sql} ORDER BY rowid ${limit.sql}`)
+            .all(...where.params, ...limit.params) as Pick<SupportedSentence, K>[];
+        return rows.map(row => this.fromRow(row));
+    }
+
+    async findById(id: string): Promise<SupportedSentence | null> {
+        const row = this.db
+            .prepare(`SELECT ${selectList(SENTENCE_COLUMNS)} FROM supported_sentences WHERE id = ?`)
+            .get(id) as SupportedSentence | undefined;
+        return row ? this.fromRow(row) : null;
+    }
+
+    async findByGloss(gloss: string, language: SignLanguage = DEFAULT_SIGN_LANGUAGE): Promise<SupportedSentence | null> {
+        const row = this.db
+            .prepare(`SELECT ${selectList(SENTENCE_COLUMNS)} FROM supported_sentences WHERE language = ? AND gloss = ?`)
+            .get(language, gloss) as SupportedSentence | undefined;
+        return row ? this.fromRow(row) : null;
+    }
+
+    async count(filter?: SentenceFilter): Promise<number> {
+        const where = this.where(filter);
+        const row = this.db.prepare(`SELECT COUNT(*) AS count FROM supported_sentences ${where.sql}`).get(...where.params) as { count: number };
+        return row.count;
+    }
+
+    private writeSentence(input: NewSupportedSentence, replaceExisting: boolean): SupportedSentence {
+        const language = input.language ?? DEFAULT_SIGN_LANGUAGE;
+        const conflict = replaceExisting ? 'ON CONFLICT(language, gloss) DO UPDATE SET words = excluded.words' : '';
+        try {
+            const row = this.db
+                .prepare(`
+                    INSERT INTO supported_sentences (id, language, gloss, words, created_at)
+                    VALUES (?, ?, ?, ?, ?) ${conflict}
+                    RETURNING ${selectList(SENTENCE_COLUMNS)}
+                `)
+                .get(crypto.randomUUID(), language, input.gloss, JSON.stringify(input.words), new Date().toISOString()) as SupportedSentence;
+            return this.fromRow(row);
+        } catch (err) {
+            if (isUniqueViolation(err)) throw new DuplicateKeyError(`${language} supported sentence`, input.gloss);
+            throw err;
+        }
+    }
+
+    async create(input: NewSupportedSentence): Promise<SupportedSentence> {
+        return this.writeSentence(input, false);
+    }
+
+    async createMany(inputs: NewSupportedSentence[], options: { replaceExisting?: boolean } = {}): Promise<SupportedSentence[]> {
+        const seen = new Set<string>();
+        inputs.forEach(input => {
+            const language = input.language ?? DEFAULT_SIGN_LANGUAGE;
+            // ON CONFLICT would silently merge duplicates inside the batch itself
+            if (seen.has(`${language}:${input.gloss}`)) throw new DuplicateKeyError(`${language} supported sentence`, input.gloss);
+            seen.add(`${language}:${input.gloss}`);
+        });
+        return this.db.transaction((batch: NewSupportedSentence[]) =>
+            batch.map(input => this.writeSentence(input, options.replaceExisting ?? false))
+        )(inputs);
+    }
+
+    async update(id: string, input: NewSupportedSentence): Promise<SupportedSentence | null> {
+        try {
+            const row = this.db
+                .prepare(`
+                    UPDATE supported_sentences SET language = COALESCE(?, language), gloss = ?, words = ?
+                    WHERE id = ? RETURNING ${selectList(SENTENCE_COLUMNS)}
+                `)
+                .get(input.language ?? null, input.gloss, JSON.stringify(input.words), id) as SupportedSentence | undefined;
+            return row ? this.fromRow(row) : null;
+        } catch (err) {
+            if (isUniqueViolation(err)) {
+                const language = input.language ?? (await this.findById(id))?.language ?? DEFAULT_SIGN_LANGUAGE;
+                throw new DuplicateKeyError(`${language} supported sentence`, input.gloss);
+            }
+            throw err;
+        }
+    }
+
+    async delete(id: string): Promise<boolean> {
+        return this.db.prepare('DELETE FROM supported_sentences WHERE id = ?').run(id).changes > 0;
+    }
+}
+
+export class SqliteSubmissionRepository implements SubmissionRepository {
+    constructor(private db: Database.Database) { }
+
+    // Rejection reasons are stored as a JSON array
+    private fromRow<T extends Partial<Record<keyof SignSubmission, unknown>>>(row: T): T {
+        return typeof row.rejectionReasons === 'string' ? { ...row, rejectionReasons: JSON.parse(row.rejectionReasons) } : row;
+    }
+
+    private where(filter: SubmissionFilter = {}) {
+        const clauses: string[] = [];
+        const params: unknown[] = [];
+        if (filter.language) {
+            clauses.push('language = ?');
+            params.push(filter.language);
+        }
+        if (filter.status) {
+            clauses.push('status = ?');
+            params.push(filter.status);
+        }
+        return { sql: clauses.length > 0 ? `WHERE ${clauses.join(' AND ')}` : '', params };
+    }
+
+    async findMany<K extends keyof SignSubmission = keyof SignSubmission>(filter?: SubmissionFilter, options: FindOptions<SignSubmission, K> = {}): Promise<Pick<SignSubmission, K>[]> {
+        const where = this.where(filter);
+        const limit = limitClause(options);
+        const rows = this.db
+            .prepare(`SELECT ${selectList(SUBMISSION_COLUMNS, options.select)} FROM sign_submissions ${where.sql} ORDER BY rowid ${limit.sql}`)
+            .all(...where.params, ...limit.params) as Pick<SignSubmission, K>[];
+        return rows.map(row => this.fromRow(row));
+    }
+
+    async findById(id: string): Promise<SignSubmission | null> {
+        const row = this.db
+            .prepare(`SELECT ${selectList(SUBMISSION_COLUMNS)} FROM sign_submissions WHERE id = ?`)
+            .get(id) as SignSubmission | undefined;
+        return row ? this.fromRow(row) : null;
+    }
+
+    async count(filter?: SubmissionFilter): Promise<number> {
+        const where = this.where(filter);
+        const row = this.db.prepare(`SELECT COUNT(*) AS count FROM sign_submissions ${where.sql}`).get(...where.params) as { count: number };
+        return row.count;
+    }
+
+    async create(input: NewSignSubmission): Promise<SignSubmission> {
+        const row = this.db
+            .prepare(`
+                INSERT INTO sign_submissions (id, language, word, file_name, signer_name, signer_id, dominant_hand, duration_ms, width, height, fps, created_at)
+                VALUES (@id, @language, @word, @fileName, @signerName, @signerId, @dominantHand, @durationMs, @width, @height, @fps, @createdAt)
+                RETURNING ${selectList(SUBMISSION_COLUMNS)}
+            `)
+            .get({
+                id: crypto.randomUUID(),
+                language: input.language ?? DEFAULT_SIGN_LANGUAGE,
+                word: input.word.trim().toUpperCase(),
+                fileName: input.fileName,
+                signerName: input.signerName,
+                signerId: input.signerId ?? null,
+                dominantHand: input.dominantHand ?? 'RIGHT',
+                durationMs: input.durationMs ?? null,
+                width: input.width ?? null,
+                height: input.height ?? null,
+                fps: input.fps ?? null,
+                createdAt: new Date().toISOString(),
+            }) as SignSubmission;
+        return this.fromRow(row);
+    }
+
+    async review(id: string, review: SubmissionReview): Promise<SignSubmission | null> {
+        // Only pending submissions can be decided, so two reviewers cannot both win
+        const row = this.db
+            .prepare(`
+                UPDATE sign_submissions
+                SET status = ?, video_url = ?, rejection_reasons = ?, review_note = ?, reviewed_at = ?
+                WHERE id = ? AND status = 'PENDING'
+                RETURNING ${selectList(SUBMISSION_COLUMNS)}
+            `)
+            .get(
+                review.status,
+                review.videoUrl ?? null,
+                JSON.stringify(review.rejectionReasons ?? []),
+                review.reviewNote ?? null,
+                new Date().toISOString(),
+                id
+            ) as SignSubmission | undefined;
+        return row ? this.fromRow(row) : null;
+    }
+
+    async reopen(id: string): Promise<void> {
+        this.db
+            .prepare(`
+                UPDATE sign_submissions
+                SET status = 'PENDING', video_url = NULL, review_note = NULL, reviewed_at = NULL
+                WHERE id = ? AND status = 'APPROVED'
+            `)
+            .run(id);
+    }
+}
+
+export const createSqliteRepositories = (filePath: string): Repositories => {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    const db = new Database(filePath);
+    db.pragma('journal_mode = WAL');
+    db.exec(SCHEMA);
+
+    return {
+        signs: new SqliteSignRepository(db),
+        sentences: new SqliteSentenceRepository(db),
+        submissions: new SqliteSubmissionRepository(db),
+        close: async () => {
+            db.close();
+        },
+    };
+};
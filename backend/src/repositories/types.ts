@@ -0,0 +1,187 @@
+/**
+ * Repository Interfaces
+ *
+ * Routes and services only depend on these interfaces.
+ * Implementations: SQLite (sqlite.repository.ts) and in-memory (memory.repository.ts).
+ */
+
+import type { SignLanguage } from '../../../shared/signLanguages';
+
+export type { SignLanguage };
+
+export type HandDominance = 'LEFT' | 'RIGHT' | 'BOTH';
+
+export type DatasetSubset = 'train' | 'val' | 'test';
+
+/**
+ * One recording of a sign.
+ */
+export interface SignVariant {
+    /** Key relative to the video root (e.g. "27184.mp4"), or an absolute URL for recordings hosted elsewhere. */
+    videoUrl: string;
+    /** WLASL signer id; null when unknown. */
+    signerId: number | null;
+    /** WLASL split the recording belongs to. */
+    subset: DatasetSubset | null;
+    /** Site the recording was collected from (e.g. "aslpro", "youtube"). */
+    source: string | null;
+    /** Length of what is played: the signing segment when known, otherwise the whole clip. */
+    durationMs: number | null;
+    /** Where the signing starts and ends inside the clip; null plays the whole clip. */
+    startMs: number | null;
+    endMs: number | null;
+    /** Probed from the video file; null when the clip could not be inspected. */
+    width: number | null;
+    height: number | null;
+    fps: number | null;
+}
+
+/**
+ * A sign's own recording fields are its preferred variant; other recordings are alternates.
+ */
+export interface Sign extends SignVariant {
+    id: string;
+    /** Words are unique per language. */
+    language: SignLanguage;
+    word: string;
+    dominantHand: HandDominance;
+    alternates: SignVariant[];
+    createdAt: string;
+}
+
+export interface SupportedSentence {
+    id: string;
+    /** Glosses are unique per language; every word must have a sign in that language. */
+    language: SignLanguage;
+    gloss: string;
+    words: string[];
+    createdAt: string;
+}
+
+export type SubmissionStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export type RejectionReason =
+    | 'WRONG_SIGN'
+    | 'INCOMPLETE_SIGN'
+    | 'SIGNER_NOT_VISIBLE'
+    | 'POOR_VIDEO_QUALITY'
+    | 'DUPLICATE'
+    | 'INAPPROPRIATE'
+    | 'OTHER';
+
+/**
+ * A contributed recording of a sign. It starts PENDING and only becomes a sign
+ * (or another variant of an existing one) when a reviewer approves it.
+ */
+export interface SignSubmission {
+    id: string;
+    language: SignLanguage;
+    word: string;
+    status: SubmissionStatus;
+    /** Stored file: in the pending uploads directory, moved to the contributions video directory on approval. */
+    fileName: string;
+    /** Video key of the published clip; set on approval. */
+    videoUrl: string | null;
+    signerName: string;
+    signerId: number | null;
+    dominantHand: HandDominance;
+    /** Probed from the uploaded file. */
+    durationMs: number | null;
+    width: number | null;
+    height: number | null;
+    fps: number | null;
+    /** Set on rejection; at least one. */
+    rejectionReasons: RejectionReason[];
+    reviewNote: string | null;
+    reviewedAt: string | null;
+    createdAt: string;
+}
+
+export type NewSign = Pick<Sign, 'word' | 'videoUrl'> & Partial<Omit<Sign, 'id' | 'word' | 'videoUrl' | 'createdAt'>>;
+
+export type NewSupportedSentence = Pick<SupportedSentence, 'gloss' | 'words'> & Partial<Pick<SupportedSentence, 'language'>>;
+
+export type NewSignSubmission = Pick<SignSubmission, 'word' | 'fileName' | 'signerName'>
+    & Partial<Pick<SignSubmission, 'language' | 'signerId' | 'dominantHand' | 'durationMs' | 'width' | 'height' | 'fps'>>;
+
+export interface SubmissionReview {
+    status: Exclude<SubmissionStatus, 'PENDING'>;
+    videoUrl?: string;
+    rejectionReasons?: RejectionReason[];
+    reviewNote?: string | null;
+}
+
+export interface FindOptions<T, K extends keyof T> {
+    /** Fields to return; all fields when omitted. */
+    select?: readonly K[];
+    skip?: number;
+    take?: number;
+}
+
+export interface SignFilter {
+    language?: SignLanguage;
+    /** Exact words, matched case-insensitively. */
+    words?: string[];
+    /** Case-insensitive substring of the word. */
+    contains?: string;
+}
+
+export interface SignRepository {
+    findMany<K extends keyof Sign = keyof Sign>(filter?: SignFilter, options?: FindOptions<Sign, K>): Promise<Pick<Sign, K>[]>;
+    /** Case-insensitive lookup of a single word. */
+    findByWord(word: string, language?: SignLanguage): Promise<Sign | null>;
+    count(filter?: SignFilter): Promise<number>;
+    /** Inserts a sign, or updates the existing sign with the same word and language. */
+    upsert(sign: NewSign): Promise<Sign>;
+    /** Upserts many signs at once (in a single transaction where supported). Returns the number written. */
+    upsertMany(signs: NewSign[]): Promise<number>;
+}
+
+export interface SentenceFilter {
+    language?: SignLanguage;
+}
+
+export interface SentenceRepository {
+    findMany<K extends keyof SupportedSentence = keyof SupportedSentence>(filter?: SentenceFilter, options?: FindOptions<SupportedSentence, K>): Promise<Pick<SupportedSentence, K>[]>;
+    findById(id: string): Promise<SupportedSentence | null>;
+    findByGloss(gloss: string, language?: SignLanguage): Promise<SupportedSentence | null>;
+    count(filter?: SentenceFilter): Promise<number>;
+    /** Throws DuplicateKeyError when the gloss is taken in the sentence's language. */
+    create(sentence: NewSupportedSentence): Promise<SupportedSentence>;
+    /**
+     * Creates all sentences or none. Existing glosses are overwritten when replaceExisting is set,
+     * otherwise they throw DuplicateKeyError.
+     */
+    createMany(sentences: NewSupportedSentence[], options?: { replaceExisting?: boolean }): Promise<SupportedSentence[]>;
+    /**
+     * Returns null when the sentence does not exist; throws DuplicateKeyError when the new gloss is taken.
+     * The language is kept when the update does not set one.
+     */
+    update(id: string, sentence: NewSupportedSentence): Promise<SupportedSentence | null>;
+    /** Returns false when the sentence does not exist. */
+    delete(id: string): Promise<boolean>;
+}
+
+export interface SubmissionFilter {
+    language?: SignLanguage;
+    status?: SubmissionStatus;
+}
+
+export interface SubmissionRepository {
+    findMany<K extends keyof SignSubmission = keyof SignSubmission>(filter?: SubmissionFilter, options?: FindOptions<SignSubmission, K>): Promise<Pick<SignSubmission, K>[]>;
+    findById(id: string): Promise<SignSubmission | null>;
+    count(filter?: SubmissionFilter): Promise<number>;
+    /** Creates a PENDING submission. */
+    create(submission: NewSignSubmission): Promise<SignSubmission>;
+    /** Records a reviewer's decision. Returns null when the submission does not exist or is no longer pending. */
+    review(id: string, review: SubmissionReview): Promise<SignSubmission | null>;
+    /** Puts an approved submission back in the queue, undoing a review whose publication failed. */
+    reopen(id: string): Promise<void>;
+}
+
+export interface Repositories {
+    signs: SignRepository;
+    sentences: SentenceRepository;
+    submissions: SubmissionRepository;
+    close(): Promise<void>;
+}
@@ -0,0 +1,36 @@
+import { FastifyInstance } from 'fastify';
+import { SIGN_LANGUAGES } from '../../../shared/signLanguages';
+
+/**
+ * Language Routes
+ *
+ * Lists the supported sign languages, the dataset each one comes from and how many
+ * signs are loaded, so clients can offer a language choice and label what is playing.
+ */
+export async function languagesRoutes(fastify: FastifyInstance) {
+
+    // GET /api/languages - Supported sign languages with their sign counts
+    fastify.get('/', {
+        schema: {
+            response: {
+                200: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            code: { type: 'string' },
+                            name: { type: 'string' },
+                            dataset: { type: 'string' },
+                            signCount: { type: 'number' }
+                        }
+                    }
+                }
+            }
+        }
+    }, async () => {
+        return Promise.all(Object.values(SIGN_LANGUAGES).map(async language => ({
+            ...language,
+            signCount: await fastify.db.signs.count({ language: language.code })
+        })));
+    });
+}
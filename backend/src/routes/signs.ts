@@ -1,44 +1,119 @@
 import { FastifyInstance } from 'fastify';
+import type { SignLanguage } from '../repositories';
+import { apiSchemas, SIGN_FIELDS } from '../schemas/api.schema';
+import { videoUrlService } from '../services/video-url.service';
+
+const languageQuerySchema = {
+    type: 'object',
+    properties: {
+        lang: apiSchemas.languageParam
+    }
+};
 
 /**
  * Sign Routes
  * 
  * Serving metadata for sign language words.
  * Backend only serves metadata + CDN URLs. No video processing.
+ * Stored video keys are resolved to URLs (signed when enabled) as responses are built.
+ * Every route is scoped to one sign language (?lang=, default ASL).
  */
 export async function signsRoutes(fastify: FastifyInstance) {
 
-    // GET /api/signs - List all signs
+    // GET /api/signs - List signs, optionally filtered by a search term and paginated
     fastify.get('/', {
         schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    lang: apiSchemas.languageParam,
+                    search: { type: 'string', minLength: 1 },
+                    skip: { type: 'integer', minimum: 0 },
+                    take: { type: 'integer', minimum: 1, maximum: 1000 }
+                }
+            },
             response: {
                 200: {
                     type: 'array',
                     items: {
                         type: 'object',
-                        properties: {
-                            word: { type: 'string' },
-                            videoUrl: { type: 'string' },
-                            durationMs: { type: 'number' },
-                            dominantHand: { type: 'string' }
-                        }
+                        properties: apiSchemas.signProperties
                     }
                 }
             }
         }
     }, async (request, reply) => {
-        const signs = await fastify.prisma.sign.findMany({
-            select: {
-                word: true,
-                videoUrl: true,
-                durationMs: true,
-                dominantHand: true
+        const { lang, search, skip, take } = request.query as { lang: SignLanguage; search?: string; skip?: number; take?: number };
+        const signs = await fastify.db.signs.findMany(
+            { language: lang, contains: search },
+            { select: SIGN_FIELDS, skip, take }
+        );
+        return signs.map(sign => videoUrlService.resolveVariant(sign));
+    });
+
+    // POST /api/signs/lookup - Resolve a whole gloss sequence in one round trip
+    fastify.post('/lookup', {
+        schema: {
+            querystring: languageQuerySchema,
+            body: {
+                type: 'object',
+                required: ['glosses'],
+                properties: {
+                    glosses: {
+                        type: 'array',
+                        minItems: 1,
+                        maxItems: 100,
+                        items: { type: 'string', minLength: 1 }
+                    }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        order: {
+                            type: 'array',
+                            items: { type: 'string' }
+                        },
+                        signs: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: apiSchemas.signProperties
+                            }
+                        },
+                        missing: {
+                            type: 'array',
+                            items: { type: 'string' }
+                        }
+                    }
+                }
             }
-        });
-        return signs;
+        }
+    }, async (request, reply) => {
+        const { lang } = request.query as { lang: SignLanguage };
+        const { glosses } = request.body as { glosses: string[] };
+        const order = glosses.map(gloss => gloss.trim().replace(/\s+/g, ' ').toUpperCase());
+        console.log(`🔍 [API] Batch lookup for ${order.length} ${lang} glosses`);
+
+        const found = await fastify.db.signs.findMany(
+            { language: lang, words: Array.from(new Set(order)) },
+            { select: SIGN_FIELDS }
+        );
+        const signsByWord = new Map(found.map(sign => [sign.word, videoUrlService.resolveVariant(sign)]));
+
+        // Preserve the requested order (including repeated glosses) in the result
+        const signs = order.filter(word => signsByWord.has(word)).map(word => signsByWord.get(word));
+        const missing = Array.from(new Set(order.filter(word => !signsByWord.has(word))));
+
+        if (missing.length > 0) {
+            console.warn(`❌ [API] Signs NOT FOUND: ${missing.join(', ')}`);
+        }
+
+        return { order, signs, missing };
     });
 
-    // GET /api/signs/:word - Lookup a single sign (case-insensitive)
+    // GET /api/signs/:word - Lookup a single sign (case-insensitive): the preferred recording plus alternates
     fastify.get('/:word', {
         schema: {
             params: {
@@ -47,14 +122,20 @@ export async function signsRoutes(fastify: FastifyInstance) {
                     word: { type: 'string' }
                 }
             },
+            querystring: languageQuerySchema,
             response: {
                 200: {
                     type: 'object',
                     properties: {
-                        word: { type: 'string' },
-                        videoUrl: { type: 'string' },
-                        durationMs: { type: 'number' },
-                        dominantHand: { type: 'string' }
+                        ...apiSchemas.signProperties,
+                        // Other recordings of the same sign, e.g. by different signers
+                        alternates: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: apiSchemas.signVariantProperties
+                            }
+                        }
                     }
                 },
                 404: {
@@ -68,26 +149,20 @@ export async function signsRoutes(fastify: FastifyInstance) {
         }
     }, async (request, reply) => {
         const { word } = request.params as { word: string };
-        console.log(`🔍 [API] Fetching sign for: "${word}"`);
+        const { lang } = request.query as { lang: SignLanguage };
+        console.log(`🔍 [API] Fetching ${lang} sign for: "${word}"`);
 
-        const sign = await fastify.prisma.sign.findFirst({
-            where: {
-                word: {
-                    equals: word.toUpperCase(),
-                    mode: 'insensitive'
-                }
-            }
-        });
+        const sign = await fastify.db.signs.findByWord(word.trim().replace(/\s+/g, ' '), lang);
 
         if (!sign) {
-            console.warn(`❌ [API] Sign for "${word}" NOT FOUND.`);
+            console.warn(`❌ [API] ${lang} sign for "${word}" NOT FOUND.`);
             return reply.code(404).send({
                 error: 'Not Found',
-                message: `Sign for word '${word}' not found.`
+                message: `${lang} sign for word '${word}' not found.`
             });
         }
 
         console.log(`✅ [API] Found sign for: "${word}"`);
-        return sign;
+        return videoUrlService.resolveVariant(sign);
     });
 }
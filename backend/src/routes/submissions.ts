@@ -0,0 +1,282 @@
+import { FastifyInstance } from 'fastify';
+import fastifyMultipart from '@fastify/multipart';
+import fs from 'fs';
+import { config } from '../config';
+import { requireAdmin } from '../plugins/admin';
+import type { HandDominance, RejectionReason, SignLanguage, SignSubmission, SubmissionStatus } from '../repositories';
+import { apiSchemas } from '../schemas/api.schema';
+import { InvalidClipError, submissionsService } from '../services/submissions.service';
+import { videoUrlService } from '../services/video-url.service';
+
+const REJECTION_REASONS: RejectionReason[] = [
+    'WRONG_SIGN', 'INCOMPLETE_SIGN', 'SIGNER_NOT_VISIBLE', 'POOR_VIDEO_QUALITY', 'DUPLICATE', 'INAPPROPRIATE', 'OTHER'
+];
+
+// The stored file name stays internal; reviewers watch clips through /:id/video
+const submissionProperties = {
+    id: { type: 'string' },
+    language: { type: 'string' },
+    word: { type: 'string' },
+    status: { type: 'string' },
+    videoUrl: { type: ['string', 'null'] },
+    signerName: { type: 'string' },
+    signerId: { type: ['number', 'null'] },
+    dominantHand: { type: 'string' },
+    durationMs: { type: ['number', 'null'] },
+    width: { type: ['number', 'null'] },
+    height: { type: ['number', 'null'] },
+    fps: { type: ['number', 'null'] },
+    rejectionReasons: {
+        type: 'array',
+        items: { type: 'string' }
+    },
+    reviewNote: { type: ['string', 'null'] },
+    reviewedAt: { type: ['string', 'null'] },
+    createdAt: { type: 'string' }
+};
+
+const submissionSchema = { type: 'object', properties: submissionProperties };
+
+const errorSchema = {
+    type: 'object',
+    properties: {
+        error: { type: 'string' },
+        message: { type: 'string' }
+    }
+};
+
+const idParamsSchema = {
+    type: 'object',
+    required: ['id'],
+    properties: {
+        id: { type: 'string' }
+    }
+};
+
+const reviewNoteSchema = { type: 'string', minLength: 1, maxLength: 1000 };
+
+// Approved submissions store the video key of their published clip
+const withVideoUrl = (submission: SignSubmission): SignSubmission =>
+    submission.videoUrl ? { ...submission, videoUrl: videoUrlService.resolve(submission.videoUrl) } : submission;
+
+/**
+ * Submission Routes
+ *
+ * Contributors upload a clip of a sign with its gloss and signer details (multipart/form-data,
+ * the clip in a "video" field). The clip is stored locally and the submission starts PENDING:
+ * nothing reaches /api/signs until a reviewer approves it. Approved clips become a new sign, or
+ * another variant of the word's existing sign; rejected clips are deleted and keep their reasons.
+ *
+ * Uploading and checking a submission's status are public; the review queue is admin-only.
+ */
+export async function submissionsRoutes(fastify: FastifyInstance) {
+    // Fields are attached to the body so the form is validated like a JSON body; the clip arrives as a Buffer
+    await fastify.register(fastifyMultipart, {
+        attachFieldsToBody: 'keyValues',
+        limits: { fileSize: config.uploads.maxFileBytes, files: 1 }
+    });
+
+    // POST /api/submissions - Upload a clip for review
+    fastify.post('/', {
+        schema: {
+            body: {
+                type: 'object',
+                required: ['video', 'word', 'signerName'],
+                properties: {
+                    language: apiSchemas.languageParam,
+                    word: { type: 'string', minLength: 1, maxLength: 100, pattern: '\\S' },
+                    signerName: { type: 'string', minLength: 1, maxLength: 100, pattern: '\\S' },
+                    signerId: { type: 'integer', minimum: 0 },
+                    dominantHand: { type: 'string', enum: ['LEFT', 'RIGHT', 'BOTH'] }
+                }
+            },
+            response: {
+                201: submissionSchema,
+                400: errorSchema,
+                415: errorSchema
+            }
+        }
+    }, async (request, reply) => {
+        const { video, language, word, signerName, signerId, dominantHand } = request.body as {
+            video: unknown; language: SignLanguage; word: string; signerName: string; signerId?: number; dominantHand?: HandDominance;
+        };
+        if (!Buffer.isBuffer(video)) {
+            return reply.code(400).send({ error: 'Bad Request', message: 'The "video" field must be a file.' });
+        }
+
+        try {
+            const submission = await submissionsService.submit(fastify.db, {
+                language,
+                word: word.trim().replace(/\s+/g, ' '),
+                signerName: signerName.trim(),
+                signerId,
+                dominantHand
+            }, video);
+            console.log(`📥 [API] ${submission.language} submission "${submission.word}" from ${submission.signerName} is pending review`);
+            return reply.code(201).send(submission);
+        } catch (err) {
+            if (err instanceof InvalidClipError) {
+                return reply.code(415).send({ error: 'Unsupported Media Type', message: err.message });
+            }
+            throw err;
+        }
+    });
+
+    // GET /api/submissions - Review queue (pending submissions unless another status is asked for)
+    fastify.get('/', {
+        preHandler: requireAdmin,
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    // Unlike the public routes, no language means every language
+                    lang: { type: 'string', enum: apiSchemas.languageParam.enum },
+                    status: { type: 'string', enum: ['PENDING', 'APPROVED', 'REJECTED'], default: 'PENDING' },
+                    skip: { type: 'integer', minimum: 0 },
+                    take: { type: 'integer', minimum: 1, maximum: 1000 }
+                }
+            },
+            response: {
+                200: {
+                    type: 'array',
+                    items: submissionSchema
+                }
+            }
+        }
+    }, async (request, reply) => {
+        const { lang, status, skip, take } = request.query as { lang?: SignLanguage; status: SubmissionStatus; skip?: number; take?: number };
+        const submissions = await fastify.db.submissions.findMany({ language: lang, status }, { skip, take });
+        return submissions.map(withVideoUrl);
+    });
+
+    // GET /api/submissions/:id - Status of a submission (the id is the contributor's receipt)
+    fastify.get('/:id', {
+        schema: {
+            params: idParamsSchema,
+            response: {
+                200: submissionSchema,
+                404: errorSchema
+            }
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const submission = await fastify.db.submissions.findById(id);
+        if (!submission) {
+            return reply.code(404).send({ error: 'Not Found', message: `Submission '${id}' not found.` });
+        }
+        return withVideoUrl(submission);
+    });
+
+    // GET /api/submissions/:id/video - Stream the clip to a reviewer
+    fastify.get('/:id/video', {
+        preHandler: requireAdmin,
+        schema: {
+            params: idParamsSchema
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const submission = await fastify.db.submissions.findById(id);
+        const clipPath = submission && submissionsService.clipPath(submission);
+        if (!clipPath) {
+            return reply.code(404).send({ error: 'Not Found', message: `No clip stored for submission '${id}'.` });
+        }
+        return reply.type('video/mp4').send(fs.createReadStream(clipPath));
+    });
+
+    // POST /api/submissions/:id/approve - Publish the clip as a sign
+    fastify.post('/:id/approve', {
+        preHandler: requireAdmin,
+        schema: {
+            params: idParamsSchema,
+            body: {
+                type: ['object', 'null'],
+                properties: {
+                    note: reviewNoteSchema
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        submission: submissionSchema,
+                        sign: {
+                            type: 'object',
+                            properties: {
+                                language: { type: 'string' },
+                                word: { type: 'string' },
+                                variantCount: { type: 'number' }
+                            }
+                        }
+                    }
+                },
+                404: errorSchema,
+                409: errorSchema
+            }
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { note } = (request.body ?? {}) as { note?: string };
+        const submission = await fastify.db.submissions.findById(id);
+        if (!submission) {
+            return reply.code(404).send({ error: 'Not Found', message: `Submission '${id}' not found.` });
+        }
+
+        const result = submission.status === 'PENDING' && await submissionsService.approve(fastify.db, submission, note);
+        if (!result) {
+            return reply.code(409).send({ error: 'Conflict', message: `Submission '${id}' has already been reviewed.` });
+        }
+
+        const { sign } = result;
+        console.log(`✅ [API] Approved ${sign.language} submission "${sign.word}" (${sign.alternates.length + 1} variants)`);
+        return {
+            submission: withVideoUrl(result.submission),
+            sign: { language: sign.language, word: sign.word, variantCount: sign.alternates.length + 1 }
+        };
+    });
+
+    // POST /api/submissions/:id/reject - Turn a submission down, with at least one reason
+    fastify.post('/:id/reject', {
+        preHandler: requireAdmin,
+        schema: {
+            params: idParamsSchema,
+            body: {
+                type: 'object',
+                required: ['reasons'],
+                properties: {
+                    reasons: {
+                        type: 'array',
+                        minItems: 1,
+                        uniqueItems: true,
+                        items: { type: 'string', enum: REJECTION_REASONS }
+                    },
+                    note: reviewNoteSchema
+                }
+            },
+            response: {
+                200: submissionSchema,
+                400: errorSchema,
+                404: errorSchema,
+                409: errorSchema
+            }
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const { reasons, note } = request.body as { reasons: RejectionReason[]; note?: string };
+        if (reasons.includes('OTHER') && !note) {
+            return reply.code(400).send({ error: 'Bad Request', message: 'A note is required when the reason is OTHER.' });
+        }
+
+        const submission = await fastify.db.submissions.findById(id);
+        if (!submission) {
+            return reply.code(404).send({ error: 'Not Found', message: `Submission '${id}' not found.` });
+        }
+
+        const rejected = submission.status === 'PENDING' && await submissionsService.reject(fastify.db, submission, reasons, note);
+        if (!rejected) {
+            return reply.code(409).send({ error: 'Conflict', message: `Submission '${id}' has already been reviewed.` });
+        }
+
+        console.log(`🚫 [API] Rejected ${rejected.language} submission "${rejected.word}": ${reasons.join(', ')}`);
+        return rejected;
+    });
+}
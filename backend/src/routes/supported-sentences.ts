@@ -1,38 +1,291 @@
 import { FastifyInstance } from 'fastify';
+import { requireAdmin } from '../plugins/admin';
+import { DuplicateKeyError, type SignLanguage } from '../repositories';
+import { apiSchemas } from '../schemas/api.schema';
+import { supportedSentencesService, type SentenceInput } from '../services/supported-sentences.service';
+
+const sentenceProperties = {
+    id: { type: 'string' },
+    language: { type: 'string' },
+    gloss: { type: 'string' },
+    words: {
+        type: 'array',
+        items: { type: 'string' }
+    },
+    createdAt: { type: 'string' }
+};
+
+const sentenceInputSchema = {
+    type: 'object',
+    required: ['gloss'],
+    properties: {
+        // Defaults to ?lang= (or, on updates, the sentence's current language)
+        language: { type: 'string', enum: apiSchemas.languageParam.enum },
+        gloss: { type: 'string', minLength: 1, maxLength: 500 },
+        words: {
+            type: 'array',
+            minItems: 1,
+            maxItems: 100,
+            items: { type: 'string', minLength: 1 }
+        }
+    }
+};
+
+const errorSchema = {
+    type: 'object',
+    properties: {
+        error: { type: 'string' },
+        message: { type: 'string' },
+        errors: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    index: { type: 'number' },
+                    language: { type: 'string' },
+                    gloss: { type: 'string' },
+                    message: { type: 'string' },
+                    unknownWords: {
+                        type: 'array',
+                        items: { type: 'string' }
+                    }
+                }
+            }
+        }
+    }
+};
+
+const languageQuerySchema = {
+    type: 'object',
+    properties: {
+        lang: apiSchemas.languageParam
+    }
+};
+
+const idParamsSchema = {
+    type: 'object',
+    required: ['id'],
+    properties: {
+        id: { type: 'string' }
+    }
+};
 
 /**
  * Supported Sentences Routes
- * 
+ *
  * Serves mappings for deterministic ISL gloss sentences.
  * Format: { gloss: "GLOSS STRING", words: ["WORD1", "WORD2"] }
+ *
+ * Sentences belong to one sign language (?lang=, default ASL). Write routes are admin-only.
+ * Every word must exist in the sign store of the sentence's language and glosses are unique per language.
  */
 export async function supportedSentencesRoutes(fastify: FastifyInstance) {
 
+    // GET /api/supported-sentences - List the curated sentences of a language
     fastify.get('/', {
         schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    lang: apiSchemas.languageParam,
+                    skip: { type: 'integer', minimum: 0 },
+                    take: { type: 'integer', minimum: 1, maximum: 1000 }
+                }
+            },
             response: {
                 200: {
                     type: 'array',
                     items: {
                         type: 'object',
-                        properties: {
-                            gloss: { type: 'string' },
-                            words: {
-                                type: 'array',
-                                items: { type: 'string' }
-                            }
-                        }
+                        properties: sentenceProperties
                     }
                 }
             }
         }
     }, async (request, reply) => {
-        const sentences = await fastify.prisma.supportedSentence.findMany({
-            select: {
-                gloss: true,
-                words: true
-            }
-        });
+        const { lang, skip, take } = request.query as { lang: SignLanguage; skip?: number; take?: number };
+        const sentences = await fastify.db.sentences.findMany({ language: lang }, { skip, take });
         return sentences;
     });
+
+    // GET /api/supported-sentences/:id - Fetch a single sentence
+    fastify.get('/:id', {
+        schema: {
+            params: idParamsSchema,
+            response: {
+                200: { type: 'object', properties: sentenceProperties },
+                404: errorSchema
+            }
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const sentence = await fastify.db.sentences.findById(id);
+        if (!sentence) {
+            return reply.code(404).send({ error: 'Not Found', message: `Supported sentence '${id}' not found.` });
+        }
+        return sentence;
+    });
+
+    // POST /api/supported-sentences - Create a sentence
+    fastify.post('/', {
+        preHandler: requireAdmin,
+        schema: {
+            querystring: languageQuerySchema,
+            body: sentenceInputSchema,
+            response: {
+                201: { type: 'object', properties: sentenceProperties },
+                400: errorSchema,
+                409: errorSchema
+            }
+        }
+    }, async (request, reply) => {
+        const { lang } = request.query as { lang: SignLanguage };
+        const { sentences, errors } = await supportedSentencesService.validate(fastify.db, [request.body as SentenceInput], lang);
+        if (errors.length > 0) {
+            return reply.code(400).send({ error: 'Bad Request', message: errors[0].message, errors });
+        }
+
+        try {
+            const sentence = await fastify.db.sentences.create(sentences[0]);
+            console.log(`✅ [API] Created supported sentence "${sentence.gloss}"`);
+            return reply.code(201).send(sentence);
+        } catch (err) {
+            if (err instanceof DuplicateKeyError) {
+                return reply.code(409).send({ error: 'Conflict', message: err.message });
+            }
+            throw err;
+        }
+    });
+
+    // POST /api/supported-sentences/bulk - Import many sentences at once (all or nothing)
+    fastify.post('/bulk', {
+        preHandler: requireAdmin,
+        schema: {
+            querystring: languageQuerySchema,
+            body: {
+                type: 'object',
+                required: ['sentences'],
+                properties: {
+                    sentences: {
+                        type: 'array',
+                        minItems: 1,
+                        maxItems: 1000,
+                        items: sentenceInputSchema
+                    },
+                    // What to do with glosses that already exist
+                    onDuplicate: { type: 'string', enum: ['error', 'skip', 'replace'], default: 'error' }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        created: { type: 'number' },
+                        skipped: {
+                            type: 'array',
+                            items: { type: 'string' }
+                        },
+                        sentences: {
+                            type: 'array',
+                            items: { type: 'object', properties: sentenceProperties }
+                        }
+                    }
+                },
+                400: errorSchema,
+                409: errorSchema
+            }
+        }
+    }, async (request, reply) => {
+        const { lang } = request.query as { lang: SignLanguage };
+        const { sentences: inputs, onDuplicate } = request.body as { sentences: SentenceInput[]; onDuplicate: 'error' | 'skip' | 'replace' };
+        console.log(`📥 [API] Bulk import of ${inputs.length} supported sentences (onDuplicate: ${onDuplicate})`);
+
+        const { sentences, errors } = await supportedSentencesService.validate(fastify.db, inputs, lang);
+        if (errors.length > 0) {
+            return reply.code(400).send({
+                error: 'Bad Request',
+                message: `${errors.length} of ${inputs.length} sentences are invalid. Nothing was imported.`,
+                errors
+            });
+        }
+
+        const skipped: string[] = [];
+        let toWrite = sentences;
+        if (onDuplicate === 'skip') {
+            const keyOf = (sentence: { language?: SignLanguage; gloss: string }) => `${sentence.language}:${sentence.gloss}`;
+            const existing = new Set((await fastify.db.sentences.findMany({}, { select: ['language', 'gloss'] })).map(keyOf));
+            toWrite = sentences.filter(sentence => !existing.has(keyOf(sentence)));
+            skipped.push(...sentences.filter(sentence => existing.has(keyOf(sentence))).map(sentence => sentence.gloss));
+        }
+
+        try {
+            const written = await fastify.db.sentences.createMany(toWrite, { replaceExisting: onDuplicate === 'replace' });
+            console.log(`✅ [API] Imported ${written.length} supported sentences, skipped ${skipped.length}`);
+            return { created: written.length, skipped, sentences: written };
+        } catch (err) {
+            if (err instanceof DuplicateKeyError) {
+                return reply.code(409).send({ error: 'Conflict', message: `${err.message}. Nothing was imported.` });
+            }
+            throw err;
+        }
+    });
+
+    // PUT /api/supported-sentences/:id - Replace a sentence
+    fastify.put('/:id', {
+        preHandler: requireAdmin,
+        schema: {
+            params: idParamsSchema,
+            body: sentenceInputSchema,
+            response: {
+                200: { type: 'object', properties: sentenceProperties },
+                400: errorSchema,
+                404: errorSchema,
+                409: errorSchema
+            }
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const existing = await fastify.db.sentences.findById(id);
+        if (!existing) {
+            return reply.code(404).send({ error: 'Not Found', message: `Supported sentence '${id}' not found.` });
+        }
+
+        // Words are checked against the new language, or the current one when it is not changed
+        const { sentences, errors } = await supportedSentencesService.validate(fastify.db, [request.body as SentenceInput], existing.language);
+        if (errors.length > 0) {
+            return reply.code(400).send({ error: 'Bad Request', message: errors[0].message, errors });
+        }
+
+        try {
+            const sentence = await fastify.db.sentences.update(id, sentences[0]);
+            if (!sentence) {
+                return reply.code(404).send({ error: 'Not Found', message: `Supported sentence '${id}' not found.` });
+            }
+            return sentence;
+        } catch (err) {
+            if (err instanceof DuplicateKeyError) {
+                return reply.code(409).send({ error: 'Conflict', message: err.message });
+            }
+            throw err;
+        }
+    });
+
+    // DELETE /api/supported-sentences/:id - Remove a sentence
+    fastify.delete('/:id', {
+        preHandler: requireAdmin,
+        schema: {
+            params: idParamsSchema,
+            response: {
+                204: { type: 'null' },
+                404: errorSchema
+            }
+        }
+    }, async (request, reply) => {
+        const { id } = request.params as { id: string };
+        const deleted = await fastify.db.sentences.delete(id);
+        if (!deleted) {
+            return reply.code(404).send({ error: 'Not Found', message: `Supported sentence '${id}' not found.` });
+        }
+        return reply.code(204).send();
+    });
 }
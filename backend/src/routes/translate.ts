@@ -0,0 +1,114 @@
+import { FastifyInstance } from 'fastify';
+import type { SignLanguage } from '../repositories';
+import { apiSchemas } from '../schemas/api.schema';
+import { translationService } from '../services/translation.service';
+import { DEFAULT_GLOSS_RULES } from '../../../shared/grammarRules';
+
+/**
+ * Translate Routes
+ * 
+ * Runs the English -> ISL gloss -> sign pipeline on the server so that
+ * non-browser clients (kiosks, chat bots) get the same output as the interpreter.
+ */
+export async function translateRoutes(fastify: FastifyInstance) {
+
+    // GET /api/translate/rules - List the grammar rules in the order they run
+    fastify.get('/rules', {
+        schema: {
+            response: {
+                200: {
+                    type: 'array',
+                    items: {
+                        type: 'object',
+                        properties: {
+                            name: { type: 'string' },
+                            description: { type: 'string' }
+                        }
+                    }
+                }
+            }
+        }
+    }, async () => {
+        return DEFAULT_GLOSS_RULES.map(({ name, description }) => ({ name, description }));
+    });
+
+    // POST /api/translate?lang= - Translate English text into gloss tokens with sign metadata
+    fastify.post('/', {
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    lang: apiSchemas.languageParam
+                }
+            },
+            body: {
+                type: 'object',
+                required: ['text'],
+                properties: {
+                    text: { type: 'string', minLength: 1, maxLength: 1000 },
+                    disabledRules: {
+                        type: 'array',
+                        items: { type: 'string', enum: DEFAULT_GLOSS_RULES.map(rule => rule.name) }
+                    }
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        text: { type: 'string' },
+                        language: { type: 'string' },
+                        gloss: { type: 'string' },
+                        tokens: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    gloss: { type: 'string' },
+                                    status: { type: 'string' },
+                                    sign: {
+                                        type: ['object', 'null'],
+                                        properties: apiSchemas.signProperties
+                                    },
+                                    letters: {
+                                        type: 'array',
+                                        items: {
+                                            type: 'object',
+                                            properties: apiSchemas.signProperties
+                                        }
+                                    },
+                                    missingLetters: {
+                                        type: 'array',
+                                        items: { type: 'string' }
+                                    }
+                                }
+                            }
+                        },
+                        rulesApplied: {
+                            type: 'array',
+                            items: { type: 'string' }
+                        },
+                        trace: {
+                            type: 'array',
+                            items: {
+                                type: 'object',
+                                properties: {
+                                    rule: { type: 'string' },
+                                    before: { type: 'array', items: { type: 'string' } },
+                                    after: { type: 'array', items: { type: 'string' } }
+                                }
+                            }
+                        },
+                        supported: { type: 'boolean' }
+                    }
+                }
+            }
+        }
+    }, async (request, reply) => {
+        const { lang } = request.query as { lang: SignLanguage };
+        const { text, disabledRules } = request.body as { text: string; disabledRules?: string[] };
+        console.log(`🔤 [API] Translating into ${lang}: "${text}"`);
+
+        return translationService.translate(fastify.db, text, lang, disabledRules);
+    });
+}
@@ -0,0 +1,58 @@
+import { FastifyInstance } from 'fastify';
+import type { SignLanguage } from '../repositories';
+import { apiSchemas } from '../schemas/api.schema';
+import { vocabularyService } from '../services/vocabulary.service';
+
+/**
+ * Vocabulary Routes
+ *
+ * Serves the list of words that have a sign in one sign language (?lang=, default ASL),
+ * derived from the sign store.
+ * Clients revalidate with If-None-Match and get a 304 while the vocabulary is unchanged.
+ */
+export async function vocabularyRoutes(fastify: FastifyInstance) {
+
+    // GET /api/vocabulary - All signed words of a language with a content version
+    fastify.get('/', {
+        schema: {
+            querystring: {
+                type: 'object',
+                properties: {
+                    lang: apiSchemas.languageParam
+                }
+            },
+            response: {
+                200: {
+                    type: 'object',
+                    properties: {
+                        language: { type: 'string' },
+                        version: { type: 'string' },
+                        count: { type: 'number' },
+                        words: {
+                            type: 'array',
+                            items: { type: 'string' }
+                        }
+                    }
+                },
+                304: {
+                    type: 'null'
+                }
+            }
+        }
+    }, async (request, reply) => {
+        const { lang } = request.query as { lang: SignLanguage };
+        const { version, words } = await vocabularyService.getVocabulary(fastify.db, lang);
+        const etag = `"${version}"`;
+
+        reply.header('ETag', etag);
+        reply.header('X-Vocabulary-Version', version);
+        reply.header('Cache-Control', 'no-cache');
+
+        const ifNoneMatch = request.headers['if-none-match'];
+        if (ifNoneMatch && ifNoneMatch.split(',').some(tag => tag.trim().replace(/^W\//, '') === etag)) {
+            return reply.code(304).send();
+        }
+
+        return { language: lang, version, count: words.length, words };
+    });
+}
@@ -1,4 +1,39 @@
+import { DEFAULT_SIGN_LANGUAGE, SIGN_LANGUAGE_CODES } from '../../../shared/signLanguages';
+
+// Public sign fields; ids and timestamps stay internal, alternates are only served per word
+export const SIGN_FIELDS = [
+    'language', 'word', 'videoUrl', 'signerId', 'subset', 'source', 'durationMs', 'startMs', 'endMs', 'width', 'height', 'fps', 'dominantHand'
+] as const;
+
+// One recording of a sign
+const signVariantProperties = {
+    videoUrl: { type: 'string' },
+    signerId: { type: ['number', 'null'] },
+    subset: { type: ['string', 'null'] },
+    source: { type: ['string', 'null'] },
+    durationMs: { type: ['number', 'null'] },
+    startMs: { type: ['number', 'null'] },
+    endMs: { type: ['number', 'null'] },
+    width: { type: ['number', 'null'] },
+    height: { type: ['number', 'null'] },
+    fps: { type: ['number', 'null'] },
+};
+
 export const apiSchemas = {
+    // ?lang= on routes scoped to one sign language
+    languageParam: {
+        type: 'string',
+        enum: SIGN_LANGUAGE_CODES,
+        default: DEFAULT_SIGN_LANGUAGE,
+    },
+    signVariantProperties,
+    // The SIGN_FIELDS of a sign
+    signProperties: {
+        language: { type: 'string' },
+        word: { type: 'string' },
+        ...signVariantProperties,
+        dominantHand: { type: 'string' },
+    },
     courseSchema: {
         type: 'object',
         properties: {
@@ -1,17 +1,16 @@
 import Fastify from 'fastify';
-import fastifyStatic from '@fastify/static';
-import path from 'path';
-import { fileURLToPath } from 'url';
 import { dbPlugin } from './plugins/db';
 import { cors as corsPlugin } from './plugins/cors';
+import { videosPlugin } from './plugins/videos';
 import { coursesRoutes } from './routes/courses';
+import { languagesRoutes } from './routes/languages';
 import { lessonsRoutes } from './routes/lessons';
 import { progressRoutes } from './routes/progress';
 import { signsRoutes } from './routes/signs';
+import { submissionsRoutes } from './routes/submissions';
 import { supportedSentencesRoutes } from './routes/supported-sentences';
-
-const __filename = fileURLToPath(import.meta.url);
-const __dirname = path.dirname(__filename);
+import { translateRoutes } from './routes/translate';
+import { vocabularyRoutes } from './routes/vocabulary';
 
 const fastify = Fastify({
     logger: true
@@ -23,18 +22,19 @@ const start = async () => {
         await fastify.register(dbPlugin);
         await fastify.register(corsPlugin);
 
-        // Serve WLASL Videos
-        await fastify.register(fastifyStatic, {
-            root: path.join(__dirname, '../public/videos'),
-            prefix: '/videos/',
-        });
+        // Serve Sign Videos
+        await fastify.register(videosPlugin);
 
         // Register Routes
         await fastify.register(coursesRoutes, { prefix: '/api/courses' });
+        await fastify.register(languagesRoutes, { prefix: '/api/languages' });
         await fastify.register(lessonsRoutes, { prefix: '/api/lessons' });
         await fastify.register(progressRoutes, { prefix: '/api/progress' });
         await fastify.register(signsRoutes, { prefix: '/api/signs' });
+        await fastify.register(submissionsRoutes, { prefix: '/api/submissions' });
         await fastify.register(supportedSentencesRoutes, { prefix: '/api/supported-sentences' });
+        await fastify.register(translateRoutes, { prefix: '/api/translate' });
+        await fastify.register(vocabularyRoutes, { prefix: '/api/vocabulary' });
 
         await fastify.listen({ port: 3000, host: '0.0.0.0' });
         console.log('Server is running on http://localhost:3000');
@@ -0,0 +1,190 @@
+import fs from 'fs';
+
+/**
+ * MP4 Metadata Probe
+ *
+ * Reads duration, resolution and frame rate straight from the ISO BMFF box tree
+ * (moov > mvhd, moov > trak > tkhd / mdia > mdhd, hdlr / minf > stbl > stts),
+ * so imports and uploads do not depend on ffmpeg being installed.
+ */
+
+export interface VideoMetadata {
+    durationMs: number;
+    width: number | null;
+    height: number | null;
+    fps: number | null;
+}
+
+interface Box {
+    type: string;
+    /** Payload start (after the header) and end, relative to the parsed buffer. */
+    start: number;
+    end: number;
+}
+
+const HEADER_SIZE = 8;
+
+/**
+ * Lists the boxes laid out back to back in buffer[start, end).
+ */
+const readBoxes = (buffer: Buffer, start = 0, end = buffer.length): Box[] => {
+    const boxes: Box[] = [];
+    let offset = start;
+    while (offset + HEADER_SIZE <= end) {
+        let size = buffer.readUInt32BE(offset);
+        const type = buffer.toString('latin1', offset + 4, offset + 8);
+        let headerSize = HEADER_SIZE;
+
+        if (size === 1) {
+            // 64-bit "largesize" follows the type
+            size = Number(buffer.readBigUInt64BE(offset + 8));
+            headerSize = 16;
+        } else if (size === 0) {
+            // Box extends to the end of its parent
+            size = end - offset;
+        }
+        if (size < headerSize || offset + size > end) {
+            throw new Error(`Malformed MP4: box "${type}" at ${offset} has invalid size ${size}`);
+        }
+
+        boxes.push({ type, start: offset + headerSize, end: offset + size });
+        offset += size;
+    }
+    return boxes;
+};
+
+const findBox = (buffer: Buffer, parent: Box, type: string) =>
+    readBoxes(buffer, parent.start, parent.end).find(box => box.type === type);
+
+/**
+ * Reads (timescale, duration) from a version 0/1 mvhd or mdhd box.
+ */
+const readTimescaleAndDuration = (buffer: Buffer, box: Box) => {
+    const version = buffer.readUInt8(box.start);
+    // Full box header (4) + creation and modification times (4 or 8 bytes each)
+    const offset = box.start + 4 + (version === 1 ? 16 : 8);
+    const timescale = buffer.readUInt32BE(offset);
+    const duration = version === 1 ? Number(buffer.readBigUInt64BE(offset + 4)) : buffer.readUInt32BE(offset + 4);
+    return { timescale, duration };
+};
+
+/**
+ * Reads the presentation size from tkhd (16.16 fixed point, last 8 bytes of the box).
+ */
+const readTrackSize = (buffer: Buffer, box: Box) => ({
+    width: Math.round(buffer.readUInt32BE(box.end - 8) / 0x10000),
+    height: Math.round(buffer.readUInt32BE(box.end - 4) / 0x10000),
+});
+
+/**
+ * Counts samples (frames) in a track from its stts table.
+ */
+const countSamples = (buffer: Buffer, box: Box) => {
+    const entryCount = buffer.readUInt32BE(box.start + 4);
+    let samples = 0;
+    for (let i = 0; i < entryCount; i++) {
+        samples += buffer.readUInt32BE(box.start + 8 + i * 8);
+    }
+    return samples;
+};
+
+const probeVideoTrack = (buffer: Buffer, moov: Box) => {
+    for (const trak of readBoxes(buffer, moov.start, moov.end).filter(box => box.type === 'trak')) {
+        const mdia = findBox(buffer, trak, 'mdia');
+        const hdlr = mdia && findBox(buffer, mdia, 'hdlr');
+        // hdlr: full box header (4) + pre_defined (4) + handler_type (4)
+        if (!mdia || !hdlr || buffer.toString('latin1', hdlr.start + 8, hdlr.start + 12) !== 'vide') continue;
+
+        const tkhd = findBox(buffer, trak, 'tkhd');
+        const mdhd = findBox(buffer, mdia, 'mdhd');
+        const minf = findBox(buffer, mdia, 'minf');
+        const stbl = minf && findBox(buffer, minf, 'stbl');
+        const stts = stbl && findBox(buffer, stbl, 'stts');
+
+        const size = tkhd ? readTrackSize(buffer, tkhd) : { width: null, height: null };
+        let fps: number | null = null;
+        if (mdhd && stts) {
+            const { timescale, duration } = readTimescaleAndDuration(buffer, mdhd);
+            const samples = countSamples(buffer, stts);
+            if (timescale > 0 && duration > 0 && samples > 0) {
+                fps = Math.round((samples / (duration / timescale)) * 100) / 100;
+            }
+        }
+        return { ...size, fps };
+    }
+    return { width: null, height: null, fps: null };
+};
+
+/**
+ * Parses the contents of a moov box (header excluded).
+ */
+const probeMoov = (buffer: Buffer): VideoMetadata => {
+    const moov: Box = { type: 'moov', start: 0, end: buffer.length };
+    const mvhd = findBox(buffer, moov, 'mvhd');
+    if (!mvhd) {
+        throw new Error('Malformed MP4: moov box has no mvhd');
+    }
+
+    const { timescale, duration } = readTimescaleAndDuration(buffer, mvhd);
+    if (timescale === 0) {
+        throw new Error('Malformed MP4: mvhd timescale is 0');
+    }
+
+    return {
+        durationMs: Math.round((duration / timescale) * 1000),
+        ...probeVideoTrack(buffer, moov),
+    };
+};
+
+export const mediaProbeService = {
+    /**
+     * Probes an MP4 held in memory (e.g. an upload).
+     */
+    probeBuffer: (buffer: Buffer): VideoMetadata => {
+        const moov = readBoxes(buffer).find(box => box.type === 'moov');
+        if (!moov) {
+            throw new Error('Not an MP4 file: no moov box found');
+        }
+        return probeMoov(buffer.subarray(moov.start, moov.end));
+    },
+
+    /**
+     * Probes an MP4 on disk. Only the top-level box headers and the moov box are read,
+     * so large media data (mdat) is skipped wherever it sits in the file.
+     */
+    probeFile: async (filePath: string): Promise<VideoMetadata> => {
+        const file = await fs.promises.open(filePath, 'r');
+        try {
+            const { size: fileSize } = await file.stat();
+            const header = Buffer.alloc(16);
+            let offset = 0;
+
+            while (offset + HEADER_SIZE <= fileSize) {
+                await file.read(header, 0, 16, offset);
+                let size = header.readUInt32BE(0);
+                const type = header.toString('latin1', 4, 8);
+                let headerSize = HEADER_SIZE;
+
+                if (size === 1) {
+                    size = Number(header.readBigUInt64BE(8));
+                    headerSize = 16;
+                } else if (size === 0) {
+                    size = fileSize - offset;
+                }
+                if (size < headerSize || offset + size > fileSize) {
+                    throw new Error(`Malformed MP4: box "${type}" at ${offset} has invalid size ${size}`);
+                }
+
+                if (type === 'moov') {
+                    const moov = Buffer.alloc(size - headerSize);
+                    await file.read(moov, 0, moov.length, offset + headerSize);
+                    return probeMoov(moov);
+                }
+                offset += size;
+            }
+            throw new Error(`Not an MP4 file: no moov box found in ${filePath}`);
+        } finally {
+            await file.close();
+        }
+    }
+};
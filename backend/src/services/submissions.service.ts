@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { config } from '../config';
+import type { HandDominance, RejectionReason, Repositories, Sign, SignLanguage, SignSubmission, SignVariant } from '../repositories';
+import { mediaProbeService } from './media-probe.service';
+import { vocabularyService } from './vocabulary.service';
+
+export interface SubmissionInput {
+    language: SignLanguage;
+    word: string;
+    signerName: string;
+    signerId?: number;
+    dominantHand?: HandDominance;
+}
+
+/**
+ * Raised when an uploaded clip cannot be accepted (not an MP4, no video track, too long).
+ */
+export class InvalidClipError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidClipError';
+    }
+}
+
+const pendingPath = (submission: SignSubmission) => path.join(config.uploads.pendingDir, submission.fileName);
+
+const approvedPath = (submission: SignSubmission) => path.join(config.uploads.approvedDir, submission.fileName);
+
+// rename() cannot cross file systems, e.g. when the pending directory is a separate volume
+const moveFile = async (from: string, to: string) => {
+    await fs.promises.mkdir(path.dirname(to), { recursive: true });
+    try {
+        await fs.promises.rename(from, to);
+    } catch (err) {
+        if ((err as NodeJS.ErrnoException).code !== 'EXDEV') throw err;
+        await fs.promises.copyFile(from, to);
+        await fs.promises.unlink(from);
+    }
+};
+
+const toVariant = (submission: SignSubmission, videoUrl: string): SignVariant => ({
+    videoUrl,
+    signerId: submission.signerId,
+    subset: null,
+    source: 'CONTRIBUTION',
+    durationMs: submission.durationMs,
+    // Contributors record just the sign, so the whole clip is played
+    startMs: null,
+    endMs: null,
+    width: submission.width,
+    height: submission.height,
+    fps: submission.fps,
+});
+
+export const submissionsService = {
+    /**
+     * Checks the clip, stores it in the pending directory and queues it for review.
+     * Throws InvalidClipError when the clip is rejected up front.
+     */
+    submit: async (db: Repositories, input: SubmissionInput, clip: Buffer): Promise<SignSubmission> => {
+        let metadata;
+        try {
+            metadata = mediaProbeService.probeBuffer(clip);
+        } catch (err) {
+            throw new InvalidClipError(`The clip could not be read as an MP4 video: ${(err as Error).message}`);
+        }
+        if (metadata.width === null) {
+            throw new InvalidClipError('The clip has no video track.');
+        }
+        if (metadata.durationMs > config.uploads.maxDurationMs) {
+            throw new InvalidClipError(`The clip is ${metadata.durationMs} ms long; at most ${config.uploads.maxDurationMs} ms is accepted.`);
+        }
+
+        const fileName = `${crypto.randomUUID()}.mp4`;
+        const filePath = path.join(config.uploads.pendingDir, fileName);
+        await fs.promises.mkdir(config.uploads.pendingDir, { recursive: true });
+        await fs.promises.writeFile(filePath, clip);
+
+        try {
+            return await db.submissions.create({ ...input, fileName, ...metadata });
+        } catch (err) {
+            await fs.promises.rm(filePath, { force: true });
+            throw err;
+        }
+    },
+
+    /**
+     * Where the clip of a submission is stored, whatever its status. Null once the file is gone (rejected).
+     */
+    clipPath: (submission: SignSubmission): string | null => {
+        const filePath = submission.status === 'APPROVED' ? approvedPath(submission) : pendingPath(submission);
+        return fs.existsSync(filePath) ? filePath : null;
+    },
+
+    /**
+     * Publishes the clip and adds it to the sign store: as a new sign when the word has none
+     * in the submission's language, otherwise as another variant of the existing sign.
+     * Returns null when the submission was decided in the meantime. If the clip cannot be
+     * published, the submission goes back to the queue so the approval can be retried.
+     */
+    approve: async (db: Repositories, submission: SignSubmission, reviewNote?: string): Promise<{ submission: SignSubmission; sign: Sign } | null> => {
+        const videoUrl = path.relative(config.videos.root, approvedPath(submission)).split(path.sep).join('/');
+        // Claimed first, so a concurrent approve or reject cannot touch the clip meanwhile
+        const approved = await db.submissions.review(submission.id, { status: 'APPROVED', videoUrl, reviewNote });
+        if (!approved) return null;
+
+        try {
+            await moveFile(pendingPath(submission), approvedPath(submission));
+        } catch (err) {
+            await db.submissions.reopen(submission.id);
+            throw err;
+        }
+
+        try {
+            const variant = toVariant(approved, videoUrl);
+            const existing = await db.signs.findByWord(approved.word, approved.language);
+            const sign = existing
+                ? await db.signs.upsert({ ...existing, alternates: [...existing.alternates, variant] })
+                : await db.signs.upsert({ language: approved.language, word: approved.word, ...variant, dominantHand: approved.dominantHand });
+            if (!existing) vocabularyService.invalidate(db, approved.language);
+            return { submission: approved, sign };
+        } catch (err) {
+            await moveFile(approvedPath(submission), pendingPath(submission));
+            await db.submissions.reopen(submission.id);
+            throw err;
+        }
+    },
+
+    /**
+     * Records the reasons and deletes the clip; the submission itself is kept so the contributor can see why.
+     * Returns null when the submission was decided in the meantime.
+     */
+    reject: async (db: Repositories, submission: SignSubmission, reasons: RejectionReason[], reviewNote?: string): Promise<SignSubmission | null> => {
+        const rejected = await db.submissions.review(submission.id, { status: 'REJECTED', rejectionReasons: reasons, reviewNote });
+        if (!rejected) return null;
+
+        await fs.promises.rm(pendingPath(submission), { force: true });
+        return rejected;
+    }
+};
@@ -0,0 +1,73 @@
+import { extractPhrases, tokenizePhrases } from '../../../shared/phraseTokenizer';
+import { DEFAULT_SIGN_LANGUAGE } from '../../../shared/signLanguages';
+import type { NewSupportedSentence, Repositories, SignLanguage } from '../repositories';
+import { vocabularyService } from './vocabulary.service';
+
+export interface SentenceInput {
+    /** Defaults to the default sign language. */
+    language?: SignLanguage;
+    gloss: string;
+    /** Sign sequence to play; derived from the gloss (multi-word signs grouped) when omitted. */
+    words?: string[];
+}
+
+export interface SentenceValidationError {
+    index: number;
+    language: SignLanguage;
+    gloss: string;
+    message: string;
+    unknownWords: string[];
+}
+
+const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toUpperCase();
+
+export const supportedSentencesService = {
+    /**
+     * Normalizes sentences and checks every word against the sign store of the sentence's language.
+     * Glosses must also be unique within the batch; uniqueness against stored sentences
+     * is enforced by the repository.
+     */
+    validate: async (db: Repositories, inputs: SentenceInput[], defaultLanguage: SignLanguage = DEFAULT_SIGN_LANGUAGE) => {
+        const vocabularies = new Map<SignLanguage, { vocabulary: Set<string>; phrases: Set<string> }>();
+        const vocabularyOf = async (language: SignLanguage) => {
+            if (!vocabularies.has(language)) {
+                const vocabulary = new Set((await vocabularyService.getVocabulary(db, language)).words);
+                vocabularies.set(language, { vocabulary, phrases: extractPhrases(vocabulary) });
+            }
+            return vocabularies.get(language)!;
+        };
+
+        const sentences: NewSupportedSentence[] = [];
+        const errors: SentenceValidationError[] = [];
+        const seen = new Set<string>();
+
+        for (const [index, input] of inputs.entries()) {
+            const language = input.language ?? defaultLanguage;
+            const { vocabulary, phrases } = await vocabularyOf(language);
+            const gloss = normalize(input.gloss);
+            const words = input.words
+                ? input.words.map(normalize).filter(Boolean)
+                : tokenizePhrases(gloss.split(' ').filter(Boolean), phrases);
+
+            if (!gloss || words.length === 0) {
+                errors.push({ index, language, gloss, message: 'Gloss and words must not be empty.', unknownWords: [] });
+                continue;
+            }
+            if (seen.has(`${language}:${gloss}`)) {
+                errors.push({ index, language, gloss, message: `${language} gloss "${gloss}" appears more than once in this request.`, unknownWords: [] });
+                continue;
+            }
+            seen.add(`${language}:${gloss}`);
+
+            const unknownWords = Array.from(new Set(words.filter(word => !vocabulary.has(word))));
+            if (unknownWords.length > 0) {
+                errors.push({ index, language, gloss, message: `No ${language} sign exists for: ${unknownWords.join(', ')}.`, unknownWords });
+                continue;
+            }
+
+            sentences.push({ language, gloss, words });
+        }
+
+        return { sentences, errors };
+    }
+};
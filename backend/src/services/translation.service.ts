@@ -0,0 +1,61 @@
+import { translateToGloss } from '../../../shared/textToGloss';
+import { matchToken } from '../../../shared/tokenMatcher';
+import { videoUrlService } from './video-url.service';
+import { vocabularyService } from './vocabulary.service';
+import type { Repositories, Sign, SignLanguage } from '../repositories';
+import { SIGN_FIELDS } from '../schemas/api.schema';
+
+type SignMetadata = Pick<Sign, typeof SIGN_FIELDS[number]>;
+
+export interface TranslationToken {
+    gloss: string;
+    status: 'MATCHED' | 'SUBSTITUTED' | 'FINGERSPELLED' | 'UNMATCHED';
+    sign: SignMetadata | null;
+    letters: SignMetadata[];
+    missingLetters: string[];
+}
+
+export const translationService = {
+    /**
+     * Runs the full English -> gloss -> sign pipeline against the signs of one language.
+     * Tokens are resolved exactly like the browser matcher (synonyms, then fingerspelling).
+     */
+    translate: async (db: Repositories, text: string, language: SignLanguage, disabledRules: string[] = []) => {
+        // Lemmas and multi-word signs (e.g. THANK YOU) are validated against the sign store
+        const vocabulary = new Set((await vocabularyService.getVocabulary(db, language)).words);
+        const { gloss, tokens, rulesApplied, trace } = translateToGloss(text, { vocabulary, disabledRules });
+
+        const matches = tokens.map(token => matchToken(token, vocabulary));
+        const neededSigns = Array.from(new Set(matches.flatMap(match => match.signs)));
+
+        const signs: SignMetadata[] = neededSigns.length > 0
+            ? await db.signs.findMany({ language, words: neededSigns }, { select: SIGN_FIELDS })
+            : [];
+        const signsByWord = new Map(signs.map(sign => [sign.word, videoUrlService.resolveVariant(sign)]));
+
+        const translated: TranslationToken[] = matches.map(match => {
+            // The vocabulary and the signs are separate reads: a sign removed in between counts as missing
+            const resolved = match.signs.flatMap(sign => signsByWord.get(sign) ?? []);
+            const unresolved = match.signs.filter(sign => !signsByWord.has(sign));
+            const fingerspelled = match.status === 'FINGERSPELLED';
+            return {
+                gloss: match.token,
+                // Nothing is dropped on the server; the client decides what to play
+                status: match.status === 'DROPPED' || (!fingerspelled && resolved.length === 0) ? 'UNMATCHED' : match.status,
+                sign: fingerspelled ? null : resolved[0] || null,
+                letters: fingerspelled ? resolved : [],
+                missingLetters: fingerspelled ? [...match.missingLetters, ...unresolved] : match.missingLetters
+            };
+        });
+
+        return {
+            text,
+            language,
+            gloss,
+            tokens: translated,
+            rulesApplied,
+            trace,
+            supported: translated.length > 0 && translated.every(token => token.status !== 'UNMATCHED' && token.missingLetters.length === 0)
+        };
+    }
+};
@@ -0,0 +1,84 @@
+import crypto from 'crypto';
+import { config } from '../config';
+
+/**
+ * Video URL Resolution
+ *
+ * Signs store where a clip lives as a key relative to the video root (e.g. "27184.mp4",
+ * "include/Greetings/1. Hello/MVI_0001.mp4"); recordings hosted elsewhere keep their absolute URL.
+ * Keys become URLs against VIDEO_BASE_URL only when a response is built, so the same data works
+ * on any host or behind a CDN. With VIDEO_URL_SECRET set, URLs also carry an expiry and an
+ * HMAC signature, which the /videos/ handler checks (plugins/videos.ts).
+ */
+
+export type SignatureCheck = 'VALID' | 'EXPIRED' | 'INVALID';
+
+// Earlier importers wrote absolute URLs against the development server
+export const LEGACY_VIDEO_BASE_URL = 'http://localhost:3000/videos';
+
+const ABSOLUTE_URL = /^[a-z][a-z\d+.-]*:/i;
+
+export const isVideoKey = (videoUrl: string) => !ABSOLUTE_URL.test(videoUrl);
+
+/**
+ * Turns a legacy local URL back into its key; other values are returned unchanged.
+ */
+export const toVideoKey = (videoUrl: string): string => {
+    if (!videoUrl.startsWith(`${LEGACY_VIDEO_BASE_URL}/`)) return videoUrl;
+    return decodeURIComponent(videoUrl.slice(LEGACY_VIDEO_BASE_URL.length + 1));
+};
+
+const signatureOf = (secret: string, key: string, expires: number) =>
+    crypto.createHmac('sha256', secret).update(`${key}\n${expires}`).digest('base64url');
+
+/**
+ * Expiry of a URL signed now. It is rounded up to the next TTL boundary, so every URL signed
+ * within one window is identical and stays cacheable; each is valid for one to two TTLs.
+ */
+const expiryFor = (now: number) => {
+    const ttl = config.videos.urlTtlSeconds;
+    return (Math.floor(now / 1000 / ttl) + 2) * ttl;
+};
+
+export const videoUrlService = {
+    /**
+     * URL a client fetches the clip from: keys are resolved against the base URL (and signed
+     * when enabled); absolute URLs are passed through.
+     */
+    resolve: (videoUrl: string, now = Date.now()): string => {
+        if (!isVideoKey(videoUrl)) return videoUrl;
+
+        const key = videoUrl.replace(/^\/+/, '');
+        const url = `${config.videos.baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+        const secret = config.videos.urlSigningSecret;
+        if (!secret) return url;
+
+        const expires = expiryFor(now);
+        return `${url}?expires=${expires}&sig=${signatureOf(secret, key, expires)}`;
+    },
+
+    /**
+     * Resolves the URL of a sign or variant, and of its alternates when it has any.
+     */
+    resolveVariant: <T extends { videoUrl: string; alternates?: { videoUrl: string }[] }>(variant: T, now = Date.now()): T => ({
+        ...variant,
+        videoUrl: videoUrlService.resolve(variant.videoUrl, now),
+        ...(variant.alternates && {
+            alternates: variant.alternates.map(alternate => ({ ...alternate, videoUrl: videoUrlService.resolve(alternate.videoUrl, now) }))
+        }),
+    }),
+
+    /**
+     * Checks the expiry and signature a request for a key was made with.
+     */
+    verify: (key: string, expires: string | undefined, signature: string | undefined, now = Date.now()): SignatureCheck => {
+        const secret = config.videos.urlSigningSecret;
+        if (!secret) return 'VALID';
+        if (!expires || !/^\d+$/.test(expires) || !signature) return 'INVALID';
+
+        const expected = Buffer.from(signatureOf(secret, key, Number(expires)));
+        const received = Buffer.from(signature);
+        if (expected.length !== received.length || !crypto.timingSafeEqual(expected, received)) return 'INVALID';
+        return Number(expires) * 1000 < now ? 'EXPIRED' : 'VALID';
+    }
+};
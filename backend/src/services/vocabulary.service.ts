@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import { DEFAULT_SIGN_LANGUAGE } from '../../../shared/signLanguages';
+import type { Repositories, SignLanguage } from '../repositories';
+
+export interface Vocabulary {
+    version: string;
+    words: string[];
+}
+
+// Per store and language. Signs are only written when seeding and when a contribution is approved,
+// so the vocabulary is read once and dropped again by invalidate().
+const cache = new WeakMap<Repositories, Map<SignLanguage, Promise<Vocabulary>>>();
+
+const loadVocabulary = async (db: Repositories, language: SignLanguage): Promise<Vocabulary> => {
+    const rows = await db.signs.findMany({ language }, { select: ['word'] });
+    const words = Array.from(new Set(rows.map(sign => sign.word))).sort();
+    const version = crypto.createHash('sha256').update(words.join('\n')).digest('hex').slice(0, 16);
+    return { version, words };
+};
+
+export const vocabularyService = {
+    /**
+     * Reads the vocabulary of one sign language from the sign store, cached until invalidate() is called.
+     * The version is a content hash of the sorted words, so it only changes when signs are added or removed.
+     */
+    getVocabulary: (db: Repositories, language: SignLanguage = DEFAULT_SIGN_LANGUAGE): Promise<Vocabulary> => {
+        let languages = cache.get(db);
+        if (!languages) {
+            languages = new Map();
+            cache.set(db, languages);
+        }
+
+        let vocabulary = languages.get(language);
+        if (!vocabulary) {
+            vocabulary = loadVocabulary(db, language);
+            languages.set(language, vocabulary);
+            // A failed read is not cached
+            vocabulary.catch(() => languages.delete(language));
+        }
+        return vocabulary;
+    },
+
+    /**
+     * Drops the cached vocabulary of a language after its signs changed.
+     */
+    invalidate: (db: Repositories, language: SignLanguage) => {
+        cache.get(db)?.delete(language);
+    }
+};
@@ -24,7 +24,7 @@ export const apiClient = {
             throw error;
         }
     },
-    post: async <T = any>(path: string, data: any): Promise<T> => {
+    post: async <T = any>(path: string, data: any, options: { signal?: AbortSignal } = {}): Promise<T> => {
         try {
             const url = path.startsWith('http') ? path : `${API_BASE_URL}${path.startsWith('/') ? '' : '/'}${path}`;
 
@@ -36,13 +36,15 @@ export const apiClient = {
                 method: 'POST',
                 headers: { 'Content-Type': 'application/json' },
                 body: JSON.stringify(data),
+                signal: options.signal,
             });
             if (!response.ok) {
                 throw new Error(`API error: ${response.status}`);
             }
             return await response.json() as T;
         } catch (error) {
-            console.error('API Post Error:', error);
+            // Cancelled requests are expected, e.g. superseded prefetches
+            if ((error as Error).name !== 'AbortError') console.error('API Post Error:', error);
             throw error;
         }
     }
@@ -0,0 +1,55 @@
+/**
+ * Offline Support
+ *
+ * Registers the service worker that keeps the app shell, sign videos and sign metadata on the
+ * device (see sw/serviceWorker.ts), and reports connectivity to the UI.
+ * Production builds only: the dev server serves modules the worker would cache.
+ */
+
+import { useSyncExternalStore } from 'react';
+import { API_BASE_URL, OFFLINE_CACHE_BUDGET_MB } from '../shared/constants';
+import type { CacheUsage } from '../sw/offlineStore';
+
+const subscribe = (onChange: () => void) => {
+    window.addEventListener('online', onChange);
+    window.addEventListener('offline', onChange);
+    return () => {
+        window.removeEventListener('online', onChange);
+        window.removeEventListener('offline', onChange);
+    };
+};
+
+export const offlineCache = {
+    register: async (): Promise<void> => {
+        if (!import.meta.env.PROD || !('serviceWorker' in navigator)) return;
+
+        // The worker reads its settings from its own URL; changing them installs it again
+        const settings = new URLSearchParams({ api: API_BASE_URL, budgetMb: String(OFFLINE_CACHE_BUDGET_MB) });
+        try {
+            await navigator.serviceWorker.register(`/sw.js?${settings}`);
+            // Without this the browser may clear the cache under storage pressure
+            const persisted = await navigator.storage?.persist?.();
+            console.log(`✅ [Offline] Service worker registered (${OFFLINE_CACHE_BUDGET_MB} MB budget, ${persisted ? 'persistent' : 'best-effort'} storage)`);
+        } catch (err) {
+            console.warn('⚠️ [Offline] Service worker registration failed:', err);
+        }
+    },
+
+    /**
+     * Bytes kept for offline use; null when no service worker controls the page.
+     */
+    usage: (): Promise<CacheUsage | null> => {
+        const worker = navigator.serviceWorker?.controller;
+        if (!worker) return Promise.resolve(null);
+        return new Promise(resolve => {
+            const channel = new MessageChannel();
+            channel.port1.onmessage = event => resolve(event.data as CacheUsage);
+            worker.postMessage({ type: 'GET_USAGE' }, [channel.port2]);
+        });
+    }
+};
+
+/**
+ * Tracks the browser's connectivity.
+ */
+export const useOnline = (): boolean => useSyncExternalStore(subscribe, () => navigator.onLine);
@@ -2,9 +2,12 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import { AppRouter } from './app/router'
+import { offlineCache } from './app/offline'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <AppRouter />
   </StrictMode>,
 )
+
+offlineCache.register()
@@ -2,11 +2,16 @@
  * Video Cache Manager
  * 
  * Handles preloading and validation of sign language videos.
+ * The player shows the preloaded elements themselves (acquire/release), so a clip that
+ * has been buffered in the background starts without reloading.
+ * Elements only live as long as the page; the service worker keeps the files themselves
+ * across reloads and offline (see sw/serviceWorker.ts).
  */
 
 export const isValidSignUrl = (url: string): boolean => {
     try {
-        const parsed = new URL(url);
+        // Relative URLs are served from the app's own origin
+        const parsed = new URL(url, window.location.href);
         // Strict requirement: https or http for local
         return parsed.protocol === 'https:' || parsed.protocol === 'http:';
     } catch {
@@ -14,17 +19,31 @@ export const isValidSignUrl = (url: string): boolean => {
     }
 };
 
+const createVideo = (url: string): HTMLVideoElement => {
+    const video = document.createElement('video');
+    video.src = url;
+    video.preload = 'auto';
+    video.muted = true;
+    video.playsInline = true;
+    return video;
+};
+
 class CacheManager {
     private cache: Map<string, HTMLVideoElement> = new Map();
     private readonly MAX_CACHE_SIZE = 50;
     private accessOrder: Set<string> = new Set();
+    // Elements currently attached to the page by the player
+    private inUse: Set<HTMLVideoElement> = new Set();
+    // Created for a guess (speculative prefetch) and not asked for by anything else since
+    private speculative: Set<string> = new Set();
 
     /**
      * Preloads a list of video URLs.
      * 
      * @param urls - Array of video URLs to preload.
+     * @param options.speculative - The clips are only a guess and may be cancelled again.
      */
-    preload(urls: string[]): void {
+    preload(urls: string[], options: { speculative?: boolean } = {}): void {
         const uniqueUrls = Array.from(new Set(urls));
         uniqueUrls.forEach(url => {
             if (!isValidSignUrl(url)) {
@@ -33,6 +52,7 @@ class CacheManager {
             }
 
             if (this.cache.has(url)) {
+                if (!options.speculative) this.speculative.delete(url);
                 // Refresh order: delete and re-add to move to end (MRU)
                 this.accessOrder.delete(url);
                 this.accessOrder.add(url);
@@ -45,14 +65,56 @@ class CacheManager {
                 if (oldestUrl) {
                     this.cache.delete(oldestUrl);
                     this.accessOrder.delete(oldestUrl);
+                    this.speculative.delete(oldestUrl);
                 }
             }
 
-            const video = document.createElement('video');
-            video.src = url;
-            video.preload = 'auto';
-            this.cache.set(url, video);
+            this.cache.set(url, createVideo(url));
             this.accessOrder.add(url);
+            if (options.speculative) this.speculative.add(url);
+        });
+    }
+
+    /**
+     * Hands out the preloaded element for a URL, to be attached to the page.
+     * When that element is already in use (the same clip twice in a row, e.g. a double letter)
+     * a separate one is created. Give it back with release().
+     */
+    acquire(url: string): HTMLVideoElement {
+        this.preload([url]);
+        const cached = this.cache.get(url);
+        const video = cached && !this.inUse.has(cached) ? cached : createVideo(url);
+        this.inUse.add(video);
+        return video;
+    }
+
+    /**
+     * Detaches an acquired element. Cached elements keep their buffered data for the next
+     * acquire(); others (extra copies, or evicted while in use) are unloaded.
+     */
+    release(video: HTMLVideoElement): void {
+        this.inUse.delete(video);
+        video.pause();
+        video.remove();
+        if (!Array.from(this.cache.values()).includes(video)) {
+            video.removeAttribute('src');
+            video.load();
+        }
+    }
+
+    /**
+     * Stops speculative preloads that turned out not to be needed and drops them from the cache.
+     * Clips that were preloaded without a guess, or asked for since, and elements in use are left alone.
+     */
+    cancel(urls: string[]): void {
+        urls.forEach(url => {
+            const video = this.cache.get(url);
+            if (!video || !this.speculative.has(url) || this.inUse.has(video)) return;
+            this.cache.delete(url);
+            this.accessOrder.delete(url);
+            this.speculative.delete(url);
+            video.removeAttribute('src');
+            video.load();
         });
     }
 
@@ -69,6 +131,7 @@ class CacheManager {
     clear(): void {
         this.cache.clear();
         this.accessOrder.clear();
+        this.speculative.clear();
     }
 }
 
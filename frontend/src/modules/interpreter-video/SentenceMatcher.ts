@@ -1,238 +1,109 @@
 /**
- * Supported Sentence Matching Engine
+ * Sentence Matching Engine
  * 
- * Rules:
- * 1. Exact match only.
+ * Open matching (matchSentence):
+ * 1. Each token is looked up in the sign vocabulary; there is no sentence list.
  * 2. Case-sensitive (Glosses are always UPPERCASE).
- * 3. No partial matching or fuzzy logic.
+ * 3. No fuzzy logic; unsupported words are substituted, fingerspelled or dropped.
+ * 4. Strict mode plays nothing unless every token has its own sign.
+ * 5. Multi-word signs (e.g. THANK YOU) are matched as a single token, longest first.
+ *
+ * Curated matching (matchCuratedSentence):
+ * The whole gloss must equal one of the curated sentences from the backend, exactly or
+ * after normalization. The sentence's explicit `words` mapping is played as-is.
  */
 
+import { matchToken, type TokenMatch } from '../../../../shared/tokenMatcher';
+import { tokenizePhrases } from '../../../../shared/phraseTokenizer';
+import type { Vocabulary } from './vocabulary';
+import type { SupportedSentence } from '../../shared/types';
+
 /**
- * In-memory vocabulary of all 2000+ signs from the WLASL dataset.
- * This allows the interpreter to recognize any word found in the dataset.
+ * A single clip in the playback sequence.
+ * Fingerspelled words expand into one segment per letter, all sharing the same source word.
  */
-export const SUPPORTED_VOCABULARY = new Set([
-    "BOOK", "DRINK", "COMPUTER", "BEFORE", "CHAIR", "GO", "CLOTHES", "WHO", "CANDY", "COUSIN",
-    "DEAF", "FINE", "HELP", "NO", "THIN", "WALK", "YEAR", "YES", "ALL", "BLACK", "COOL",
-    "FINISH", "HOT", "LIKE", "MANY", "MOTHER", "NOW", "ORANGE", "TABLE", "THANKSGIVING", "WHAT",
-    "WOMAN", "BED", "BLUE", "BOWLING", "CAN", "DOG", "FAMILY", "FISH", "GRADUATE", "HAT",
-    "HEARING", "KISS", "LANGUAGE", "LATER", "MAN", "SHIRT", "STUDY", "TALL", "WHITE", "WRONG",
-    "ACCIDENT", "APPLE", "BIRD", "CHANGE", "COLOR", "CORN", "COW", "DANCE", "DARK", "DOCTOR",
-    "EAT", "ENJOY", "FORGET", "GIVE", "LAST", "MEET", "PINK", "PIZZA", "PLAY", "SCHOOL",
-    "SECRETARY", "SHORT", "TIME", "WANT", "WORK", "AFRICA", "BASKETBALL", "BIRTHDAY", "BROWN", "BUT",
-    "CHEAT", "CITY", "COOK", "DECIDE", "FULL", "HOW", "JACKET", "LETTER", "MEDICINE", "NEED",
-    "PAINT", "PAPER", "PULL", "PURPLE", "RIGHT", "SAME", "SON", "TELL", "THURSDAY", "VISIT",
-    "WAIT", "WATER", "WIFE", "YELLOW", "BACKPACK", "BAR", "BROTHER", "CAT", "CHECK", "CLASS",
-    "CRY", "DIFFERENT", "DOOR", "GREEN", "HAIR", "HAVE", "HEADACHE", "INFORM", "KNIFE", "LAUGH",
-    "LEARN", "MOVIE", "RABBIT", "READ", "RED", "ROOM", "RUN", "SHOW", "SICK", "SNOW",
-    "TAKE", "TEA", "TEACHER", "WEEK", "WHY", "WITH", "WRITE", "YESTERDAY", "AGAIN", "BAD",
-    "BALL", "BATHROOM", "BLANKET", "BUY", "CALL", "COFFEE", "COLD", "COLLEGE", "COPY", "CUTE",
-    "DAUGHTER", "EXAMPLE", "FAR", "FIRST", "FRIEND", "GOOD", "HAPPY", "HOME", "KNOW", "LATE",
-    "LEAVE", "LIST", "LOSE", "NAME", "OLD", "PERSON", "POLICE", "PROBLEM", "REMEMBER", "SHARE",
-    "SOON", "STAY", "SUNDAY", "TEST", "TIRED", "TRADE", "TRAVEL", "WINDOW", "YOU", "ABOUT",
-    "APPROVE", "ARRIVE", "BALANCE", "BANANA", "BEARD", "BECAUSE", "BOY", "BUSINESS", "CAREFUL", "CENTER",
-    "CHAT", "CHILDREN", "CHRISTMAS", "CLOCK", "CLOSE", "CONVINCE", "COUNTRY", "CRASH", "DAY", "DISCUSS",
-    "DRESS", "DRIVE", "DROP", "FAT", "FEEL", "FOOTBALL", "FUTURE", "GAME", "GIRL", "GOVERNMENT",
-    "HEAR", "HERE", "HOPE", "HOUSE", "HUSBAND", "INTEREST", "JOIN", "LIGHT", "LIVE", "MAKE",
-    "MEAN", "MORE", "MOST", "MUSIC", "NEW", "NONE", "OFFICE", "ORDER", "PANTS", "PARTY",
-    "PAST", "PENCIL", "PLAN", "PLEASE", "PRACTICE", "PRESIDENT", "RESTAURANT", "RIDE", "RUSSIA", "SALT",
-    "SANDWICH", "SIGN", "SINCE", "SMALL", "SOME", "SOUTH", "STUDENT", "TEACH", "THEORY", "TOMATO",
-    "TRAIN", "UGLY", "WAR", "WHERE", "YOUR", "ALWAYS", "ANIMAL", "ARGUE", "BABY", "BACK",
-    "BAKE", "BATH", "BEHIND", "BRING", "CATCH", "CEREAL", "CHAMPION", "CHEESE", "COUGH", "CRAZY",
-    "DELAY", "DELICIOUS", "DISAPPEAR", "DIVORCE", "DRAW", "EAST", "EASY", "EGG", "ENVIRONMENT", "FATHER",
-    "FAULT", "FLOWER", "FRIENDLY", "GLASSES", "HALLOWEEN", "HARD", "HEART", "HOUR", "HUMBLE", "HURRY",
-    "IMPROVE", "INTERNET", "JUMP", "KILL", "LAW", "MATCH", "MEAT", "MILK", "MONEY", "MONTH",
-    "MOON", "MOVE", "NEAR", "NEPHEW", "NICE", "NIECE", "NOON", "NORTH", "NOT", "NURSE",
-    "OFF", "OK", "PATIENT", "PAY", "PERSPECTIVE", "POTATO", "SAD", "SATURDAY", "SAVE", "SCISSORS",
-    "SECRET", "SHOES", "SHOP", "SILLY", "SISTER", "SLEEP", "SORRY", "STRAIGHT", "SWEET", "TALK",
-    "TEMPERATURE", "TENT", "THANK YOU", "THINK", "THROW", "TODAY", "TRAFFIC", "UNDERSTAND", "USE", "VOICE",
-    "VOMIT", "VOTE", "WEDNESDAY", "WEST", "WET", "WHEN", "WHICH", "WIN", "WORD", "AFTERNOON",
-    "AGE", "ALONE", "APPOINTMENT", "AUSTRALIA", "AVOID", "BALLOON", "BASEMENT", "BEAR", "BELIEVE", "BETTER",
-    "BLIND", "BORED", "BOWL", "BOX", "BRACELET", "BREAD", "CAFETERIA", "CAR", "CHICKEN", "CHILD",
-    "CHOOSE", "CHURCH", "COOKIE", "CUP", "CUT", "DECORATE", "DEEP", "DEER", "DENTIST", "DIRTY",
-    "DIVE", "DOWN", "DRY", "EAR", "EARN", "EARRING", "ELEPHANT", "ENGLISH", "ESCAPE", "EXPENSIVE",
-    "EXPLAIN", "FAST", "FIGHT", "FIND", "FISHING", "FLOOR", "FLY", "FOLLOW", "FROM", "GET",
-    "HAPPEN", "HELLO", "HIT", "HOSPITAL", "IDEA", "IMPORTANT", "INVESTIGATE", "JAPAN", "JEALOUS", "KING",
-    "KITCHEN", "LARGE", "LAST YEAR", "LEMON", "LETTUCE", "MARRY", "MEETING", "MINUTE", "MIRROR", "MISS",
-    "MONKEY", "MORNING", "MOTORCYCLE", "NECKLACE", "NEVER", "NEWSPAPER", "NIGHT", "ONION", "PEOPLE", "PEPPER",
-    "PHONE", "PICTURE", "PLUS", "POINT", "POOR", "POSSIBLE", "QUIET", "RAIN", "READY", "RESEARCH",
-    "SCARED", "SCIENCE", "SCORE", "SENTENCE", "SHAPE", "SIT", "SLOW", "SNAKE", "SOAP", "SODA",
-    "SPEECH", "STAR", "STINK", "STRUGGLE", "STUBBORN", "SUNSET", "SURGERY", "THERE", "TIGER", "TOAST",
-    "TOILET", "TOMORROW", "TOWN", "TRANSFER", "TREE", "TRUCK", "UNCLE", "VACATION", "WEATHER", "WEEKEND",
-    "ACCEPT", "ADULT", "AFTER", "AGO", "ALLOW", "AMERICA", "ANGEL", "ANSWER", "ANY", "AREA",
-    "ART", "ASL", "AUNT", "AWFUL", "AWKWARD", "BACON", "BARK", "BEDROOM", "BEER", "BELT",
-    "BIG", "BITTER", "BOTH", "CAKE", "CALIFORNIA", "CANADA", "CARROT", "CAUSE", "CHALLENGE", "CHEAP",
-    "CHOCOLATE", "CLEAN", "CLOUD", "COMPARE", "COMPLEX", "CONTACT", "CONTINUE", "CORNER", "CORRECT", "CURSE",
-    "DEAD", "DEMAND", "DEPEND", "DESERT", "DESK", "DEVELOP", "DICTIONARY", "DOLL", "DUTY", "EASTER",
-    "EGYPT", "ELEVATOR", "EMAIL", "END", "ENTER", "EUROPE", "EVENT", "EXCHANGE", "EXPERIENCE", "FACE",
-    "FAIL", "FEED", "FEW", "FLAG", "FOOD", "FOR", "FORM", "FREEZE", "FRIDAY", "FRONT",
-    "GIRAFFE", "GOD", "GRAMMAR", "GRANDFATHER", "GREAT", "GREECE", "GUESS", "GUITAR", "HAMMER", "HELICOPTER",
-    "HIGH", "HISTORY", "HUNGRY", "HURT", "INTRODUCE", "INVEST", "LAZY", "LIBRARY", "LIE", "LOBSTER",
-    "LOVE", "LUCKY", "MAGAZINE", "MEASURE", "MICROWAVE", "MY", "NEIGHBOR", "NUMBER", "ONE", "OUTSIDE",
-    "PEACH", "PIG", "POLITE", "POSTPONE", "POWER", "PRESENT", "PRICE", "PRISON", "PUSH", "RACCOON",
-    "REALLY", "REASON", "RELIGION", "RESPECT", "RULE", "SALAD", "SCHEDULE", "SELL", "SERIOUS", "SHOWER",
-    "SINGLE", "SMART", "SMILE", "SOFT", "SOUND", "SOUP", "SPAIN", "SPRAY", "SQUIRREL", "STOMACH",
-    "STORY", "STRANGE", "STREET", "STRESS", "STRICT", "STRONG", "SUGAR", "SUMMER", "SUSPECT", "SWEETHEART",
-    "TEASE", "THAT", "THEMSELVES", "THERAPY", "THIRSTY", "TICKET", "TOP", "TUESDAY", "TURKEY", "UNIVERSITY",
-    "UNTIL", "WATCH", "WEAK", "WEDDING", "WILL", "WIND", "WORLD", "WORRY", "WOW", "YOUNG",
-    "ADD", "AIRPLANE", "ALREADY", "ALSO", "ANALYZE", "AND", "ANGRY", "APPEAR", "ARM", "ARMY",
-    "ARREST", "ASIA", "ASK", "ATTITUDE", "ATTRACT", "BALD", "BARELY", "BASEBALL", "BEG", "BENEFIT",
-    "BITE", "BLAME", "BOAT", "BODY", "BORROW", "BOSS", "BOTHER", "BOTTLE", "BOTTOM", "BRAG",
-    "BUILD", "BUS", "BUTTER", "CALM", "CANCEL", "CANDLE", "CARDS", "CHOICE", "COMB", "COMFORTABLE",
-    "CONFLICT", "COVER", "DEODORANT", "DESSERT", "DESTROY", "DIAMOND", "DOLLAR", "DRAWER", "DREAM", "DRUNK",
-    "DUCK", "DURING", "EAGLE", "EARLY", "EQUAL", "EVERY", "EXCITED", "EXERCISE", "EXPERIMENT", "EXPERT",
-    "FACT", "FEAR", "FEEDBACK", "FOLD", "FOREST", "FRANCE", "FROG", "FUNNY", "GARAGE", "GOAL",
-    "GOLF", "GONE", "GOSSIP", "GRANDMOTHER", "GRAPES", "GROUP", "GUILTY", "HAMBURGER", "HATE", "HEAD",
-    "HER", "HORSE", "IGNORE", "IMPOSSIBLE", "IN", "INDEPENDENT", "INSIDE", "INSURANCE", "ISLAND", "LECTURE",
-    "LESSON", "LIMIT", "LION", "LISTEN", "MARCH", "MATH", "MAYBE", "MECHANIC", "MOM", "MOUSE",
-    "MUCH", "MUSCLE", "MUSEUM", "MUST", "MUSTACHE", "NEGATIVE", "NERVOUS", "NEUTRAL", "NOSE", "OFTEN",
-    "OPERATE", "OPINION", "OTHER", "PASS", "PILLOW", "PREPARE", "PRETTY", "PRIEST", "PROGRAM", "PROMISE",
-    "PUT", "QUEEN", "QUIT", "RADIO", "RAT", "REJECT", "REQUIRE", "REST", "RETIRE", "RISE",
-    "RIVER", "ROUGH", "SEE", "SEEM", "SEND", "SEW", "SHEEP", "SHINE", "SHOCK", "SHOULD",
-    "SILENT", "SKINNY", "SKIRT", "SKY", "SOUR", "SPECIAL", "SPIRIT", "STAFF", "STAND", "STEAL",
-    "STOP", "STUPID", "SUMMON", "SUNRISE", "SWALLOW", "TELEVISION", "TO", "TOGETHER", "TRANSLATE", "TRIANGLE",
-    "TURTLE", "UNDERWEAR", "UP", "UPSET", "VIOLIN", "VOLUNTEER", "WARM", "WARN", "WASH", "WINE",
-    "WITNESS", "WOOD", "ZERO", "ACROSS", "ACTOR", "AGREE", "ALARM", "ALLERGY", "ALMOST", "ANNOUNCE",
-    "APARTMENT", "ATTENTION", "AUDIENCE", "AUGUST", "AUTUMN", "AWAY", "BEAUTIFUL", "BECOME", "BELOW", "BEST",
-    "BET", "BICYCLE", "BIOLOGY", "BOYFRIEND", "BREAK", "BRIDGE", "BRUSH", "BUILDING", "BUSY", "CAMERA",
-    "CAMP", "CAPTION", "CARE", "CARRY", "CELEBRATE", "CERTIFICATE", "CHAIN", "CHANCE", "CHARACTER", "CHASE",
-    "CLASSROOM", "CLEAR", "CLIMB", "COMMAND", "COMMUNITY", "COMPLAIN", "COMPROMISE", "CONTRIBUTE", "COP", "COST",
-    "COUCH", "CRACKER", "CURIOUS", "CURRICULUM", "DAD", "DENY", "DESCRIBE", "DIAPER", "DIARRHEA", "DISAGREE",
-    "DISSOLVE", "DIVIDE", "DOLPHIN", "DOUBLE", "DOUBT", "DUMB", "EARTH", "EARTHQUAKE", "EIGHT", "EMBARRASS",
-    "EMOTION", "ENCOURAGE", "ENERGY", "ENOUGH", "EVALUATE", "EVIDENCE", "EXACT", "EXAGGERATE", "EXPECT", "FANCY",
-    "FAVORITE", "FINALLY", "FOX", "FRENCH", "FRUIT", "FUNCTION", "GATHER", "GERMANY", "GLOVES", "GOAT",
-    "GOODBYE", "GROW", "GUM", "HALF", "HAWAII", "HERSELF", "HIGHWAY", "HOMEWORK", "HONOR", "ICE CREAM",
-    "IF", "INCREASE", "INDIA", "INFORMATION", "INTERPRET", "INTERVIEW", "INVITE", "ISRAEL", "JESUS", "KEEP",
-    "KEYBOARD", "LAND", "LAWYER", "LEAD", "LESBIAN", "LINE", "LOCK", "LOUD", "LOUSY", "LUNCH",
-    "MACHINE", "MAD", "MEMORIZE", "MINUS", "MONDAY", "MOUNTAIN", "MOUTH", "MUSHROOM", "NAPKIN", "NECK",
-    "NEXT", "OCEAN", "OPEN", "OVERWHELM", "OWE", "PAGE", "PAIN", "PARADE", "PARENTS", "PERFECT",
-    "PERIOD", "PHILOSOPHY", "PHOTOGRAPHER", "PLACE", "POLICY", "POPULAR", "PRAY", "PREDICT", "PRESENTATION", "PRINT",
-    "PRINTER", "PRIVATE", "PROCRASTINATE", "PROJECT", "PROTECT", "PROVE", "PROVIDE", "PSYCHOLOGY", "PUNISH", "PUZZLED",
-    "QUESTION", "QUICK", "RAINBOW", "RAKE", "REHEARSE", "REMOVE", "REVENGE", "REVIEW", "RICH", "ROOF",
-    "ROOSTER", "RUDE", "SAY", "SCIENTIST", "SCOTLAND", "SCREWDRIVER", "SECOND", "SENATE", "SEPARATE", "SERVICE",
-    "SHRIMP", "SHY", "SIDE", "SITUATION", "SLAVE", "SOCCER", "SOCKS", "SOLID", "SOMETIMES", "SPIDER",
-    "SPIN", "SQUARE", "STAIRS", "STARE", "START", "STORE", "STRAW", "STRUCTURE", "SUGGEST", "SUN",
-    "SUPPORT", "SUPPOSE", "SURE", "SURPRISE", "SWEATER", "SWIM", "SYMBOL", "TASTE", "TEAM", "TELEPHONE",
-    "TENNIS", "THEIR", "THEN", "THERMOMETER", "THING", "THIRD", "THOUSAND", "THREE", "TIE", "TOPIC",
-    "TOUCH", "TOURNAMENT", "TRY", "TWO", "TYPE", "UMBRELLA", "VEGETABLE", "VOCABULARY", "WASTE", "WE",
-    "WEAR", "WEEKLY", "WELCOME", "WINTER", "WITHOUT", "WOLF", "WORM", "WRISTWATCH", "YOURSELF", "ABOVE",
-    "ACCOMPLISH", "ADOPT", "ADVANTAGE", "ALPHABET", "ANNIVERSARY", "ANOTHER", "APPROPRIATE", "ARROGANT", "ARTIST", "BACKGROUND",
-    "BEE", "BEHAVIOR", "BELL", "BIRTH", "BLESS", "BLOOD", "BOOTS", "BRAVE", "BREATHE", "BRIGHT",
-    "BULL", "BUTTERFLY", "CARD", "CATEGORY", "CATHOLIC", "CENT", "CHEMISTRY", "CHERRY", "CHINA", "CHOP",
-    "CHRISTIAN", "CIGARETTE", "CLEVER", "CLOWN", "COACH", "COAT", "COCHLEAR IMPLANT", "COCONUT", "COMMON", "COMMUTE",
-    "CONTROL", "COUNT", "CULTURE", "DAILY", "DEFEND", "DEGREE", "DEMONSTRATE", "DEPARTMENT", "DIE", "DIG",
-    "DINNER", "DINOSAUR", "DIPLOMA", "DIRECTOR", "DISCONNECT", "DISCOVER", "DON'T WANT", "DRUM", "EACH", "EDUCATE",
-    "ELECTRICIAN", "EMPTY", "ENGLAND", "ESTABLISH", "EXCUSE", "EYEGLASSES", "FACULTY", "FALL IN LOVE", "FAMOUS", "FARM",
-    "FENCE", "FIX", "FLEXIBLE", "FLIRT", "FLOOD", "FORK", "FOUR", "FUN", "FUNERAL", "FURNITURE",
-    "GALLAUDET", "GENERAL", "GHOST", "GIVE UP", "GLASS", "GORILLA", "GRAY", "GUIDE", "HABIT", "HEALTH",
-    "HEARING AID", "HEAVEN", "HEAVY", "HELMET", "HIDE", "HIGH SCHOOL", "HOCKEY", "HOLD", "HONEST", "HUG",
-    "HUNT", "IMAGE", "INFLUENCE", "INTERESTING", "INTERPRETER", "IRAN", "ITALY", "JEWISH", "JUDGE", "KEY",
-    "LABEL", "LEAF", "LEFT", "LEND", "LESS", "LINGUISTICS", "LONELY", "LONG", "MAGIC", "MAINSTREAM",
-    "MAJOR", "MANAGER", "MAXIMUM", "ME", "MEXICO", "MIDDLE", "MIND", "MISUNDERSTAND", "MONSTER", "MULTIPLY",
-    "MYSELF", "NOTHING", "OCTOBER", "ODD", "OFFER", "ON", "ONLY", "OPPOSITE", "OUT", "OVERLOOK",
-    "PATH", "PERCENT", "PHYSICS", "PIANO", "PICK", "PIE", "PLATE", "POCKET", "POPCORN", "POSITIVE",
-    "PREGNANT", "PREVENT", "PROOF", "PUMPKIN", "PURPOSE", "RACE", "REALIZE", "RECOGNIZE", "REFUSE", "RELATIONSHIP",
-    "REPEAT", "REPLACE", "REPORT", "REPRESENT", "REQUEST", "RESPONSIBILITY", "RESULT", "REVEAL", "RING", "ROB",
-    "ROCK", "ROLE", "ROPE", "RUSH", "SALUTE", "SATISFY", "SEARCH", "SELFISH", "SENSITIVE", "SERVE",
-    "SEVEN", "SHAMPOO", "SHE", "SHELF", "SHOPPING", "SIGN LANGUAGE", "SIMILAR", "SING", "SIX", "SKELETON",
-    "SKETCH", "SKILL", "SLEEPY", "SLIP", "SMELL", "SNEEZE", "SNOB", "SPECIFIC", "STAMP", "STEEL",
-    "STRAWBERRY", "SUBTRACT", "SUBWAY", "SUFFER", "SURFACE", "SWEEP", "SWING", "SWITZERLAND", "TALE", "TAN",
-    "TEETH", "TERRIBLE", "THANKFUL", "THEY", "THROUGH", "TIPTOE", "TITLE", "TOOTH", "TOOTHBRUSH", "TOTAL",
-    "TOUGH", "TRADITION", "TROPHY", "TROUBLE", "TRUE", "TRUST", "UNDER", "VERB", "WALL", "WATERMELON",
-    "WAY", "WEIRD", "WHILE", "WIDE", "WILLING", "WISH", "WONDERFUL", "WORKSHOP", "WORSE", "WRENCH",
-    "A", "A LOT", "ABDOMEN", "ABLE", "ACCOUNTANT", "ACTION", "ACTIVE", "ACTIVITY", "ADDRESS", "AFFECT",
-    "AFRAID", "AGAINST", "AGENDA", "AHEAD", "AIM", "ALCOHOL", "ALGEBRA", "ALL DAY", "AMAZING", "ANGLE",
-    "APART", "APOSTROPHE", "APPETITE", "APPRECIATE", "APRIL", "ARCHERY", "AROUND", "ARTICLE", "ASSISTANT", "ATTEND",
-    "AUCTION", "AUTHORITY", "AVERAGE", "AWAKE", "B", "BABYSITTER", "BATTLE", "BEGINNING", "BELIEF", "BIBLE",
-    "BIKE", "BLEND", "BONE", "BRA", "BRIEF", "BROKE", "BUG", "BULLY", "BUTTON", "CABBAGE",
-    "CABINET", "CALCULATE", "CALCULATOR", "CALCULUS", "CAMPING", "CANOE", "CARELESS", "CEILING", "CEMETERY", "CHAPTER",
-    "CHOIR", "CIRCLE", "COME", "COME HERE", "COMPANY", "COMPLETE", "CONCEPT", "CONCERN", "CONFRONT", "CONFUSED",
-    "CONGRESS", "CONNECT", "CONQUER", "CONSTITUTION", "CONTRACT", "COURT", "CRAB", "CROSS", "CRUEL", "CRUSH",
-    "DATE", "DECEMBER", "DECREASE", "DEDUCT", "DEFEAT", "DEPOSIT", "DEPRESSED", "DETACH", "DETERMINE", "DIABETES",
-    "DIME", "DIRT", "DISGUST", "DISMISS", "DIZZY", "DOCUMENT", "DORM", "DORMITORY", "DOWNSTAIRS", "ECONOMY",
-    "EDUCATION", "EFFORT", "EIGHTEEN", "ENGAGE", "ENGAGEMENT", "ENGINEER", "ENVELOPE", "ERASE", "ETERNITY", "EVENING",
-    "EVERYDAY", "EXPAND", "EYE", "EYES", "FAKE", "FARMER", "FEBRUARY", "FEDERAL", "FINAL", "FLORIDA",
-    "FLUTE", "FORBID", "FOREVER", "FOURTH", "FREE", "FRENCH FRIES", "GAMBLE", "GAS", "GASOLINE", "GENERATION",
-    "GEOGRAPHY", "GERMAN", "GIRLFRIEND", "GOLD", "GRANDMA", "GRASS", "GROW UP", "GUN", "HAIRCUT", "HARD OF HEARING",
-    "HIPPOPOTAMUS", "HIS", "HONEY", "HURRICANE", "IDENTIFY", "INCLUDE", "INFECTION", "INNOCENT", "INSECT", "INSTEAD",
-    "INSTITUTE", "INTERNATIONAL", "INTERRUPT", "INVOLVE", "JAIL", "JANUARY", "JOKE", "JUNE", "KANGAROO", "KARATE",
-    "KICK", "KNEEL", "KNOCK", "LAPTOP", "LIFT", "LIGHTNING", "LIP", "LIPSTICK", "LOCAL", "MANAGE",
-    "MATURE", "MEMBER", "MESSAGE", "METAL", "MICROPHONE", "MIX", "MONTHLY", "MOTOR", "NATION", "NETWORK",
-    "NICKEL", "NINETEEN", "NORMAL", "NOVEMBER", "NUT", "OCTOPUS", "ONCE", "ORGANIZE", "OVER", "OWL",
-    "P", "PARACHUTE", "PARAGRAPH", "PARALLEL", "PAY ATTENTION", "PEACE", "PEANUT BUTTER", "PERFUME", "PERSONALITY", "PET",
-    "PHILADELPHIA", "PHYSICIAN", "PIECE", "PITY", "PLANT", "PLENTY", "PNEUMONIA", "POLITICS", "POSITION", "POUND",
-    "POUR", "PRAISE", "PREACH", "PREACHER", "PREFER", "PRESSURE", "PRINCIPAL", "PRIORITY", "PROFESSIONAL", "PROFESSOR",
-    "PROMOTE", "PROSTITUTE", "PROUD", "QUOTE", "RECEIVE", "RECENT", "REDUCE", "REFER", "REFEREE", "RELATE",
-    "RELAX", "REMOTE CONTROL", "RENT", "REPUTATION", "RESIGN", "RESPONSIBLE", "RIDICULOUS", "ROAD", "ROBOT", "RUBBER",
-    "SAFE", "SAUCE", "SAUSAGE", "SCOLD", "SENIOR", "SEPTEMBER", "SEVERAL", "SHAME", "SHAVE", "SHOOT",
-    "SHOULDER", "SILVER", "SIMPLE", "SIREN", "SIZE", "SKATE", "SKIN", "SKUNK", "SLICE", "SMOOTH",
-    "SNACK", "SNOWMAN", "SOCIETY", "SOMEONE", "SONG", "SORE THROAT", "SOUTH AMERICA", "SPANISH", "SPEAK", "SPEED",
-    "SPELL", "SPOON", "SPRING", "STANDARD", "STATISTICS", "STICKY", "STILL", "STRETCH", "SURGEON", "SWEDEN",
-    "SWIMSUIT", "SYMPATHY", "TAKE TURNS", "TAKE UP", "TECHNOLOGY", "TEMPLE", "TENDER", "THAILAND", "THEATER", "THEM",
-    "THEME", "THICK", "THIS", "THROAT", "TISSUE", "TONGUE", "TONIGHT", "TORNADO", "TOWER", "TRANQUIL",
-    "TRANSFORM", "TUTOR", "TWIN", "UNITED STATES", "VALUE", "VISITOR", "WAITER", "WAKE UP", "WALLET", "WANDER",
-    "WASH FACE", "WEIGHT", "WHALE", "WHATEVER", "WITHIN", "WONDER", "WORKER", "WORTHLESS", "WRAP", "ACCENT",
-    "ACT", "ADAPT", "ADJECTIVE", "ADJUST", "ADMIRE", "ADMIT", "ADVANCED", "ADVERB", "AGREEMENT", "AID",
-    "ALLIGATOR", "AMPUTATE", "ANATOMY", "ANNOY", "ANYWAY", "APPROACH", "ARIZONA", "ASSIST", "ASSUME", "ATTORNEY",
-    "AUDIOLOGIST", "AUDIOLOGY", "AUSTRIA", "AUTHOR", "AVAILABLE", "AWARD", "AWARE", "BANK", "BAPTIZE", "BASIC",
-    "BATTERY", "BERRY", "BESIDE", "BETWEEN", "BINOCULARS", "BLOW", "BOAST", "BOIL", "BOOKSHELF", "BOOKSTORE",
-    "BOXING", "BRAID", "BRAIN", "BREAKDOWN", "BREAKFAST", "BREEZE", "BRIBE", "BROCHURE", "BUFFALO", "BURP",
-    "BUSH", "BYE", "CAMEL", "CANDIDATE", "CANNOT", "CAPTAIN", "CARNIVAL", "CATERPILLAR", "CHEERLEADER", "CHEMICAL",
-    "CHICAGO", "CHOKE", "CHRIST", "CLICK", "CLOSET", "CLUELESS", "CLUMSY", "COLLECT", "COMMA", "COMMENT",
-    "COMMIT", "COMMITTEE", "COMMON SENSE", "COMPETE", "CONCENTRATE", "CONGRATULATIONS", "CONSIDER", "CONSTRUCT", "CONSUME", "CONTEST",
-    "CONVERSATION", "CONVERT", "COOPERATE", "COUNSEL", "COUNSELOR", "CRAVE", "CREATE", "CROCODILE", "CROWN", "CUBA",
-    "CURTAIN", "CUSTOMER", "D", "DAMAGE", "DANCER", "DANGER", "DANGEROUS", "DAWN", "DEATH", "DEBATE",
-    "DEBT", "DELIVER", "DEMOCRAT", "DESCEND", "DESIGN", "DETECTIVE", "DEVIL", "DICE", "DIFFICULT", "DINING ROOM",
-    "DISCIPLINE", "DISCOUNT", "DISGUSTED", "DISTURB", "DIVISION", "DONE", "DRAG", "DRAGON", "DRAMA", "DRUG",
-    "DUE", "DULL", "DUSK", "DVD", "DYE", "E", "EITHER", "ELECTRICITY", "ELEMENTARY", "ELSE",
-    "EMERGENCY", "ENGINE", "ENORMOUS", "ERASER", "EVERY MONDAY", "EVERY TUESDAY", "EVERYTHING", "EXCEPT", "EXHIBIT", "EXPLODE",
-    "EXPRESS", "F", "FAIRY", "FAMILIAR", "FESTIVAL", "FINANCE", "FINGERSPELL", "FIRE", "FIREFIGHTER", "FIVE",
-    "FLATTER", "FOOL", "FORGIVE", "FORMER", "FREEWAY", "FROM NOW ON", "G", "GANG", "GAY", "GEOMETRY",
-    "GET UP", "GIFT", "GRAB", "GRADUATION", "GRATEFUL", "GREY", "GYMNASTICS", "H", "HANG UP", "HANUKKAH",
-    "HEAP", "HEART ATTACK", "HILL", "HOLY", "HOP", "HOST", "HOT DOG", "HUMAN", "I", "ILL",
-    "ILLEGAL", "IMPACT", "INDIVIDUAL", "INSPECT", "INSPIRE", "INTERSECTION", "IRELAND", "IRON", "J", "JEWELRY",
-    "JOURNEY", "JOY", "JULY", "K", "KID", "KINDERGARTEN", "LADY", "LAMP", "LAST WEEK", "LAUNDRY",
-    "LEADER", "LEAGUE", "LEAK", "LEGAL", "LET", "LIABILITY", "LIBRARIAN", "LICENSE", "LITTLE BIT", "LOAN",
-    "LOOK AT", "LOOK FOR", "LORD", "M", "MEANING", "MELODY", "MELT", "MENTION", "MICROSCOPE", "MIDNIGHT",
-    "MILITARY", "MINE", "MISTAKE", "MOCK", "MOOSE", "MOSQUITO", "MOTIVATE", "MURDER", "N", "NARROW",
-    "NECESSARY", "NEGOTIATE", "NEW YORK", "NINE", "NORTHWEST", "NOT YET", "NOTICE", "NUMEROUS", "NUN", "O",
-    "OBJECTIVE", "OBSESS", "OBTAIN", "OCCUR", "ODOR", "OLYMPICS", "OR", "ORAL", "OUR", "OVERCOME",
-    "PACK", "PAINTER", "PART", "PAUSE", "PEACEFUL", "PEAR", "PEEL", "PENALTY", "PENNSYLVANIA", "PENNY",
-    "PERMIT", "PHRASE", "PICKLE", "PILOT", "PLAYER", "POLAR BEAR", "POLICEMAN", "POOP", "POST", "POTENTIAL",
-    "POVERTY", "PRECIOUS", "PRECIPITATION", "PRECISE", "PRESCHOOL", "PRIDE", "PRINCE", "PRINCESS", "PRINCIPLE", "PROCESS",
-    "PROFIT", "PROGRESS", "PROPAGANDA", "PROPER", "PSYCHOLOGIST", "PUBLIC", "PUBLISH", "PURCHASE", "PURE", "PURSUE",
-    "PUT OFF", "Q", "QUALITY", "QUARREL", "QUARTER", "R", "RAGE", "RATHER", "REAL", "RECLINER",
-    "RECOMMEND", "RECOVER", "REGULAR", "RELEASE", "RELIEF", "RELY", "REPLY", "RESCUE", "RESIST", "RESTROOM",
-    "RETREAT", "ROAR", "ROBBER", "ROOMMATE", "ROSE", "RUIN", "S", "SALARY", "SAW", "SCAN",
-    "SCREAM", "SCULPTURE", "SEA", "SELDOM", "SEQUENCE", "SETTLE", "SHOUT", "SHOVEL", "SIN", "SINGER",
-    "SIXTEEN", "SKI", "SKIP", "SMOKING", "SOFA", "SOLDIER", "SOLVE", "SOMEDAY", "SOMETHING", "SOMEWHERE",
-    "SOUL", "SPILL", "SPIT", "SPREAD", "SPRINT", "SQUEEZE", "STADIUM", "STEPFATHER", "STING", "STIR",
-    "STITCH", "STUCK", "SUE", "SUNSHINE", "SUPERMAN", "SURRENDER", "SUSPEND", "SWIMMING", "T", "TALENT",
-    "TELESCOPE", "TEMPT", "TEN", "TEND", "TESTIFY", "TEXAS", "TEXT", "THAN", "THEREFORE", "THRILL",
-    "TOBACCO", "TOILET PAPER", "TOLERATE", "TORTURE", "TOWEL", "TRIP", "TRUTH", "TURN", "TV", "U",
-    "UNIQUE", "UPSTAIRS", "V", "VACANT", "VAGUE", "VALLEY", "VAMPIRE", "VERY", "VICE PRESIDENT", "VIEWPOINT",
-    "VISUALIZE", "VLOG", "VOLLEYBALL", "W", "WASHINGTON", "WATERFALL", "WEIGH", "WHEELCHAIR", "WHISTLE"
-]);
+export interface SignSegment {
+    sign: string;
+    source: string;
+    fingerspelled: boolean;
+    tokenIndex: number;
+}
+
+export interface SentenceMatch {
+    tokens: TokenMatch[];
+    segments: SignSegment[];
+    missingLetters: string[];
+}
+
+export interface MatchOptions {
+    /** All-or-nothing: every word must have its own sign, otherwise nothing is played. */
+    strict?: boolean;
+}
 
 /**
- * Matches a gloss string against the vocabulary.
- * If all words in the gloss are found in the WLASL dataset, it returns them.
+ * Matches a gloss string against the vocabulary, token by token.
+ * Words found in the sign store are signed directly; other words are
+ * replaced by a signed synonym, fingerspelled, or dropped.
  * 
  * @param gloss - The generated ISL gloss string (uppercase).
- * @returns string[] - The array of signs to play if matched.
- * @returns null - If any word is not supported.
+ * @param vocabulary - The sign vocabulary served by the backend (see loadVocabulary).
+ * @param options - Matching options (see MatchOptions).
+ * @returns SentenceMatch - Per-token results and the segments to play.
+ * @returns null - If nothing in the gloss can be signed (or, in strict mode, any word is unsupported).
  */
-export const matchSentence = (gloss: string): string[] | null => {
+export const matchSentence = (gloss: string, vocabulary: Vocabulary, options: MatchOptions = {}): SentenceMatch | null => {
     if (!gloss) return null;
 
-    const words = gloss.trim().split(/\s+/);
+    const words = tokenizePhrases(gloss.trim().split(/\s+/), vocabulary.phrases);
+    const tokens = words.map(word => matchToken(word, vocabulary.words));
 
-    // Check if every word in the gloss exists in our supported vocabulary
-    const allWordsValid = words.every(word => SUPPORTED_VOCABULARY.has(word));
-
-    if (allWordsValid && words.length > 0) {
-        return words;
+    if (options.strict && tokens.some(token => token.status !== 'MATCHED')) {
+        return null;
     }
 
+    const segments: SignSegment[] = [];
+    const missingLetters: string[] = [];
+
+    tokens.forEach((token, tokenIndex) => {
+        token.signs.forEach(sign => {
+            segments.push({ sign, source: token.token, fingerspelled: token.status === 'FINGERSPELLED', tokenIndex });
+        });
+        token.missingLetters.forEach(letter => {
+            if (!missingLetters.includes(letter)) missingLetters.push(letter);
+        });
+    });
+
+    if (segments.length === 0) return null;
+
+    return { tokens, segments, missingLetters };
+};
+
+// Case, punctuation and spacing do not distinguish curated sentences
+const normalizeSentence = (text: string) => text.toUpperCase().replace(/[^A-Z0-9\s]/g, ' ').replace(/\s+/g, ' ').trim();
+
+/**
+ * Builds the playback sequence for a curated sentence from its explicit word mapping.
+ */
+export const curatedSentenceMatch = (sentence: SupportedSentence): SentenceMatch => {
+    const tokens: TokenMatch[] = sentence.words.map(word => ({ token: word, status: 'MATCHED', signs: [word], missingLetters: [] }));
+    const segments: SignSegment[] = sentence.words.map((word, tokenIndex) => ({ sign: word, source: word, fingerspelled: false, tokenIndex }));
+    return { tokens, segments, missingLetters: [] };
+};
+
+/**
+ * Finds the curated sentence for a gloss: an exact match first, then a normalized one.
+ * Further candidates (e.g. the raw transcript) are only tried after the gloss.
+ * 
+ * @returns The matched sentence, or null if the input is not one of the curated sentences.
+ */
+export const matchCuratedSentence = (candidates: string[], sentences: SupportedSentence[]): SupportedSentence | null => {
+    for (const candidate of candidates) {
+        const exact = sentences.find(sentence => sentence.gloss === candidate);
+        if (exact) return exact;
+
+        const normalized = normalizeSentence(candidate);
+        const match = normalized && sentences.find(sentence => normalizeSentence(sentence.gloss) === normalized);
+        if (match) return match;
+    }
     return null;
 };
@@ -1,107 +1,304 @@
-import React, { useState, useEffect, useCallback } from 'react';
-import { speechService } from '../../shared/speech';
-import { convertToGloss } from '../../shared/textToGloss';
+import React, { useState, useEffect, useCallback, useEffectEvent, useRef } from 'react';
+import { normalizeText, speechService } from '../../shared/speech';
 import { apiClient } from '../../app/apiClient';
-import { matchSentence } from './SentenceMatcher';
+import { useOnline } from '../../app/offline';
+import { interpretCuratedSentence, interpretText, type Interpretation, type InterpretationResult } from './interpreter';
+import { catchUp, catchUpRate, isLive } from './interpretationQueue';
+import { segmentSentences } from '../../../../shared/sentenceSegmenter';
+import { speculativePrefetch } from './speculativePrefetch';
+import { loadVocabulary } from './vocabulary';
+import { loadSupportedSentences } from './supportedSentences';
 import VideoSequence from './VideoSequence';
+import type { SignLanguageSummary, SupportedSentence } from '../../shared/types';
+import { CATCH_UP_THRESHOLD, DEFAULT_CATCH_UP_POLICY, DEFAULT_INTERPRETER_MODE, INITIAL_SIGN_LANGUAGE, type CatchUpPolicy, type InterpreterMode } from '../../shared/constants';
+import { SIGN_LANGUAGES, type SignLanguage } from '../../../../shared/signLanguages';
 
 type InterpreterStatus = 'IDLE' | 'LISTENING' | 'PROCESSING' | 'PLAYING' | 'ERROR';
 
+type InputMode = 'VOICE' | 'TEXT';
+
+// Missing in Firefox and many embedded browsers, where typed text is the only input
+const speechSupported = Boolean(speechService.recognition);
+
+/**
+ * The utterance on the player and the ones waiting for it.
+ */
+interface PlaybackState {
+    current: Interpretation | null;
+    waiting: Interpretation[];
+    /** False once the last utterance has finished; its last frame stays up for replay. */
+    playing: boolean;
+    /** Utterances dropped or summarized by the catch-up policy this session. */
+    condensed: number;
+}
+
+const EMPTY_PLAYBACK: PlaybackState = { current: null, waiting: [], playing: false, condensed: 0 };
+
+const MODE_LABELS: Record<InterpreterMode, { label: string; title: string }> = {
+    OPEN: { label: 'Open', title: 'Sign every word possible; substitute, fingerspell or skip the rest' },
+    STRICT: { label: 'Strict', title: 'Only play sentences where every word has its own sign' },
+    CURATED: { label: 'Curated', title: 'Only play curated sentences, with their verified sign sequence' },
+};
+
+const INPUT_MODE_LABELS: Record<InputMode, { label: string; title: string }> = {
+    VOICE: { label: 'Voice', title: speechSupported ? 'Interpret speech from the microphone' : 'Speech recognition is not available in this browser' },
+    TEXT: { label: 'Text', title: 'Type or paste text; each sentence is signed in turn' },
+};
+
+const CATCH_UP_LABELS: Record<CatchUpPolicy, { label: string; title: string }> = {
+    SPEED_UP: { label: 'Speed up', title: 'Play faster while sentences are waiting' },
+    DROP_OLDEST: { label: 'Skip older', title: `Keep only the ${CATCH_UP_THRESHOLD} newest waiting sentences` },
+    SUMMARIZE: { label: 'Summarize', title: 'Merge the waiting sentences into one, without fingerspelling or repeated signs' },
+};
+
 /**
  * SpeechInput Component
  * 
  * Orchestrates the real-time ISL interpreter flow:
- * 1. Listening: Captures user speech via Web Speech API.
- * 2. Glossing: Converts English transcript to ISL Gloss.
- * 3. Matching: Checks if the gloss matches a supported sentence.
- * 4. Fetching: Retrieves sign video URLs from backend API.
- * 5. Playback: Triggers word-by-word video playback if matched.
+ * 1. Listening: Captures user speech continuously via Web Speech API. Interim results are shown
+ *    as a draft gloss, and their signs are prefetched (see speculativePrefetch.ts).
+ * 2. Interpreting: Each final result is glossed, matched and looked up (see interpreter.ts).
+ * 3. Queueing: Interpreted utterances wait in the order they were heard while the player
+ *    is busy; the backlog is shown, and the catch-up policy keeps it short (see interpretationQueue.ts).
+ * 4. Playback: Utterances are played word by word, one after another.
+ *
+ * Text mode takes typed or pasted text instead: it is split into sentences, which go through
+ * the same steps in order, and the sentence being signed is highlighted.
+ *
+ * Vocabulary, curated sentences and clips all come from the selected sign language,
+ * which is labelled on the player.
  */
 const SpeechInput: React.FC = () => {
-    const [status, setStatus] = useState<InterpreterStatus>('IDLE');
-    const [transcription, setTranscription] = useState('');
-    const [gloss, setGloss] = useState('');
-    const [matchedWords, setMatchedWords] = useState<string[] | null>(null);
-    const [videoUrls, setVideoUrls] = useState<Record<string, string>>({});
+    const [inputMode, setInputMode] = useState<InputMode>(speechSupported ? 'VOICE' : 'TEXT');
+    const [listening, setListening] = useState(false);
+    const [typedText, setTypedText] = useState('');
+    // Sentences of the submitted text, and why those that could not be signed failed
+    const [typedSentences, setTypedSentences] = useState<string[] | null>(null);
+    const [failedSentences, setFailedSentences] = useState<Record<number, string>>({});
+    // Utterances still being interpreted
+    const [pending, setPending] = useState(0);
+    const [playback, setPlayback] = useState<PlaybackState>(EMPTY_PLAYBACK);
+    // Gloss of the phrase still being spoken
+    const [draft, setDraft] = useState<{ text: string; gloss: string } | null>(null);
+    const [catchUpPolicy, setCatchUpPolicy] = useState<CatchUpPolicy>(DEFAULT_CATCH_UP_POLICY);
     const [currentWordIndex, setCurrentWordIndex] = useState(-1);
     const [error, setError] = useState<string | null>(null);
-
-    const handleSpeechResult = useCallback(async (text: string) => {
-        setTranscription(text);
-        setStatus('PROCESSING');
-
-        // Step 2: Convert to Gloss
-        const resultGloss = convertToGloss(text);
-        setGloss(resultGloss);
-
-        // Step 3: Match Sentence
-        const words = matchSentence(resultGloss);
-        if (words) {
-            try {
-                // Step 4: Fetch Metadata for each word from Backend
-                const urlMap: Record<string, string> = {};
-                const validWords: string[] = [];
-
-                for (const word of words) {
-                    try {
-                        const signMetadata = await apiClient.get<{ videoUrl: string }>(`/signs/${word}`);
-                        urlMap[word] = signMetadata.videoUrl;
-                        validWords.push(word);
-                    } catch (err) {
-                        console.warn(`Sign not found for word: ${word}. Skipping...`);
-                    }
-                }
-
-                if (validWords.length > 0) {
-                    setVideoUrls(urlMap);
-                    setMatchedWords(validWords);
-                    setStatus('PLAYING');
+    const [mode, setMode] = useState<InterpreterMode>(DEFAULT_INTERPRETER_MODE);
+    const [curatedSentences, setCuratedSentences] = useState<SupportedSentence[] | null>(null);
+    const [language, setLanguage] = useState<SignLanguage>(INITIAL_SIGN_LANGUAGE);
+    const [languages, setLanguages] = useState<SignLanguageSummary[]>([]);
+    const online = useOnline();
+    // Utterances are interpreted one at a time, so they are queued in the order they were heard
+    const interpretChainRef = useRef<Promise<void>>(Promise.resolve());
+    // Bumped on reset; results of an earlier session are discarded
+    const sessionRef = useRef(0);
+    // Bumped by every interim and final result; a draft gloss that resolves late is discarded
+    const draftRef = useRef(0);
+
+    const { current, waiting, playing, condensed } = playback;
+    const status: InterpreterStatus = playing ? 'PLAYING' : pending > 0 ? 'PROCESSING' : listening ? 'LISTENING' : 'IDLE';
+    const transcription = current?.text ?? '';
+    const gloss = current?.gloss ?? '';
+    const tokens = current?.tokens ?? null;
+    const segments = current?.segments ?? null;
+    const notice = current?.notice ?? null;
+
+    const enqueue = useCallback((interpretation: Interpretation) => {
+        setPlayback(prev => {
+            if (!prev.playing) return { ...prev, current: interpretation, playing: true };
+            if (!isLive(interpretation)) return { ...prev, waiting: [...prev.waiting, interpretation] };
+            const result = catchUp([...prev.waiting, interpretation], catchUpPolicy, CATCH_UP_THRESHOLD);
+            return { ...prev, waiting: result.queue, condensed: prev.condensed + result.condensed };
+        });
+    }, [catchUpPolicy]);
+
+    /**
+     * Runs an interpretation after the ones already in progress, and queues its result.
+     */
+    const interpret = useCallback((run: () => Promise<InterpretationResult>) => {
+        const session = sessionRef.current;
+        setPending(prev => prev + 1);
+        interpretChainRef.current = interpretChainRef.current
+            .then(run)
+            .then(result => {
+                if (session !== sessionRef.current) return;
+                if (result.ok) {
+                    setError(null);
+                    enqueue(result.interpretation);
                 } else {
-                    setError('None of the signs in this sentence are currently available. Please check the browser console (F12) for network errors.');
-                    setStatus('IDLE');
+                    setError(result.text ? `"${result.text}": ${result.error}` : result.error);
                 }
-            } catch (err) {
-                console.error('Sign metadata error:', err);
-                setError('Failed to load sign videos. Please ensure the backend is running.');
-                setStatus('IDLE');
-            }
-        } else {
-            setError('One or more words in this sentence are not currently supported by the interpreter library.');
-            setStatus('IDLE');
-        }
-    }, []);
+            })
+            .catch(err => console.error('Interpretation error:', err))
+            .finally(() => {
+                if (session === sessionRef.current) setPending(prev => prev - 1);
+            });
+    }, [enqueue]);
+
+    const handleSpeechResult = useCallback((text: string) => {
+        draftRef.current += 1;
+        setDraft(null);
+        const reportUsedClips = speculativePrefetch.settle(text);
+        interpret(async () => {
+            const result = await interpretText(text, { language, mode, online });
+            reportUsedClips(result.ok ? Object.values(result.interpretation.clips).map(clip => clip.videoUrl) : []);
+            return result;
+        });
+    }, [interpret, language, mode, online]);
+
+    const handleSpeechInterim = useCallback((text: string) => {
+        const draftId = ++draftRef.current;
+        speculativePrefetch.draft(text, language)
+            .then(gloss => {
+                if (draftId === draftRef.current) setDraft({ text, gloss });
+            })
+            .catch(err => console.warn('Draft gloss failed:', err));
+    }, [language]);
 
     const handleSpeechError = useCallback((err: string) => {
+        // A pause in the talk, not a failure: recognition restarts when it ends
+        if (err === 'no-speech') return;
         setError(`Speech Error: ${err}`);
-        setStatus('IDLE');
+        setListening(false);
     }, []);
 
+    // Recognition stops by itself after a silence; a live session keeps listening until stopped
+    const handleSpeechEnd = useEffectEvent(() => {
+        if (listening) speechService.start();
+    });
+
+    useEffect(() => {
+        if (!speechSupported) return;
+        speechService.init({
+            onResult: handleSpeechResult,
+            onInterim: handleSpeechInterim,
+            onError: handleSpeechError,
+            onEnd: () => handleSpeechEnd()
+        });
+    }, [handleSpeechResult, handleSpeechInterim, handleSpeechError]);
+
+    // Warm the vocabulary cache so the first sentence is not delayed by the download
+    useEffect(() => {
+        loadVocabulary(language).catch(err => console.warn('Vocabulary preload failed:', err));
+    }, [language]);
+
+    useEffect(() => {
+        // A late response must not replace the sentences of a newly selected language
+        let active = true;
+        loadSupportedSentences(language)
+            .then(sentences => {
+                if (active) setCuratedSentences(sentences);
+            })
+            .catch(err => {
+                console.warn('Curated sentences could not be loaded:', err);
+                if (active) setCuratedSentences([]);
+            });
+        return () => {
+            active = false;
+        };
+    }, [language]);
+
     useEffect(() => {
-        speechService.init(handleSpeechResult, handleSpeechError);
-    }, [handleSpeechResult, handleSpeechError]);
+        apiClient.get<SignLanguageSummary[]>('/languages')
+            .then(setLanguages)
+            .catch(err => console.warn('Sign languages could not be loaded:', err));
+    }, []);
+
+    const resetOutput = () => {
+        sessionRef.current += 1;
+        // The new session does not wait for lookups whose results are discarded anyway
+        interpretChainRef.current = Promise.resolve();
+        draftRef.current += 1;
+        speculativePrefetch.reset();
+        setDraft(null);
+        setPending(0);
+        setError(null);
+        setPlayback(EMPTY_PLAYBACK);
+        setCurrentWordIndex(-1);
+        setTypedSentences(null);
+        setFailedSentences({});
+    };
+
+    const stopListening = () => {
+        setListening(false);
+        speechService.stop();
+        // The phrase being spoken is cut off; its final result may never come
+        draftRef.current += 1;
+        speculativePrefetch.reset();
+        setDraft(null);
+    };
 
     const toggleListening = () => {
-        if (status === 'LISTENING') {
-            speechService.stop();
-            setStatus('IDLE');
+        if (listening) {
+            stopListening();
         } else {
-            setError(null);
-            setTranscription('');
-            setGloss('');
-            setMatchedWords(null);
-            setCurrentWordIndex(-1);
+            resetOutput();
+            setListening(true);
             speechService.start();
-            setStatus('LISTENING');
         }
     };
 
+    // Text mode: every sentence is interpreted and queued in order
+    const interpretTypedText = () => {
+        const sentences = segmentSentences(typedText);
+        if (sentences.length === 0) return;
+        if (listening) stopListening();
+        resetOutput();
+        setTypedSentences(sentences);
+
+        const session = sessionRef.current;
+        sentences.forEach((sentence, sentenceIndex) => {
+            interpret(async () => {
+                const result = await interpretText(normalizeText(sentence), { language, mode, online });
+                if (result.ok) return { ...result, interpretation: { ...result.interpretation, sentenceIndex } };
+                if (session === sessionRef.current) setFailedSentences(prev => ({ ...prev, [sentenceIndex]: result.error }));
+                return result;
+            });
+        });
+    };
+
+    const changeInputMode = (next: InputMode) => {
+        if (next === 'TEXT' && listening) stopListening();
+        setInputMode(next);
+    };
+
+    // Demo panel: run a curated sentence directly, without speech
+    const playCuratedSentence = (sentence: SupportedSentence) => {
+        if (listening) stopListening();
+        resetOutput();
+        interpret(() => interpretCuratedSentence(sentence, { language, mode, online }));
+    };
+
+    // Output of one language is never shown under the label of another
+    const changeLanguage = (next: SignLanguage) => {
+        if (next === language) return;
+        if (listening) stopListening();
+        resetOutput();
+        setCuratedSentences(null);
+        setLanguage(next);
+    };
+
+    // A new policy applies to the utterances already waiting; typed sentences are left alone
+    const changeCatchUpPolicy = (next: CatchUpPolicy) => {
+        setCatchUpPolicy(next);
+        setPlayback(prev => {
+            const result = catchUp(prev.waiting, next, CATCH_UP_THRESHOLD);
+            return { ...prev, waiting: result.queue, condensed: prev.condensed + result.condensed };
+        });
+    };
+
+    // Next utterance, if one is waiting
     const handlePlaybackComplete = () => {
-        setStatus('IDLE');
+        setPlayback(prev => prev.waiting.length > 0
+            ? { ...prev, current: prev.waiting[0], waiting: prev.waiting.slice(1) }
+            : { ...prev, playing: false });
         setCurrentWordIndex(-1);
     };
 
+    // Also called when a finished sentence is replayed or a word is picked from the sequence bar
     const handlePlaybackProgress = (index: number) => {
         setCurrentWordIndex(index);
+        setPlayback(prev => prev.playing ? prev : { ...prev, playing: true });
     };
 
     return (
@@ -121,6 +318,27 @@ const SpeechInput: React.FC = () => {
 
                 {/* Right: Actions */}
                 <div className="flex items-center gap-6">
+                    {/* Sign Language Selector */}
+                    <label className="flex items-center gap-2 text-xs font-bold text-blue-100 dark:text-slate-300 uppercase tracking-wider">
+                        <span className="hidden sm:inline">Sign language</span>
+                        <select
+                            value={language}
+                            onChange={(e) => changeLanguage(e.target.value as SignLanguage)}
+                            className="bg-white/10 text-white rounded-full px-3 py-2 border border-white/10 focus:outline-none focus:ring-2 focus:ring-white/30"
+                        >
+                            {(languages.length > 0 ? languages : [{ ...SIGN_LANGUAGES[language], signCount: null }]).map(option => (
+                                <option
+                                    key={option.code}
+                                    value={option.code}
+                                    disabled={option.signCount === 0}
+                                    className="text-slate-900"
+                                >
+                                    {option.code} · {option.name}{option.signCount === 0 ? ' (no signs loaded)' : ''}
+                                </option>
+                            ))}
+                        </select>
+                    </label>
+
                     {/* Home Tab */}
                     <button
                         onClick={() => window.location.reload()}
@@ -141,9 +359,9 @@ const SpeechInput: React.FC = () => {
                 {/* 1.5 Process Flow Indicator - Centered below header */}
                 <div className="w-full max-w-3xl mx-auto mb-12 flex items-center justify-between px-4">
                     {/* Step 1 */}
-                    <div className={`group flex flex-col items-center gap-2 transition-all duration-300 ${status === 'LISTENING' ? 'scale-110 text-isl-primary dark:text-blue-400 font-bold' : 'text-gray-400 dark:text-slate-600 font-medium'}`}>
-                        <div className={`w-10 h-10 rounded-full flex items-center justify-center text-sm border-2 shadow-sm transition-colors ${status === 'LISTENING' ? 'bg-isl-primary border-isl-primary text-white' : 'bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-700'}`}>
-                            {status === 'LISTENING' ? (
+                    <div className={`group flex flex-col items-center gap-2 transition-all duration-300 ${listening ? 'scale-110 text-isl-primary dark:text-blue-400 font-bold' : 'text-gray-400 dark:text-slate-600 font-medium'}`}>
+                        <div className={`w-10 h-10 rounded-full flex items-center justify-center text-sm border-2 shadow-sm transition-colors ${listening ? 'bg-isl-primary border-isl-primary text-white' : 'bg-white dark:bg-slate-800 border-gray-200 dark:border-slate-700'}`}>
+                            {listening ? (
                                 <span className="animate-pulse">●</span>
                             ) : 1}
                         </div>
@@ -191,7 +409,21 @@ const SpeechInput: React.FC = () => {
 
                         {/* Status Badge */}
                         <div className="flex items-center justify-between">
-                            <h2 className="text-xl font-bold text-white tracking-tight">Voice Input</h2>
+                            <h2 className="text-xl font-bold text-white tracking-tight">{inputMode === 'TEXT' ? 'Text Input' : 'Voice Input'}</h2>
+                            <div className="ml-auto mr-3 flex items-center rounded-full bg-white/10 border border-white/10 p-0.5" role="radiogroup" aria-label="Interpreter mode">
+                                {(Object.keys(MODE_LABELS) as InterpreterMode[]).map(option => (
+                                    <button
+                                        key={option}
+                                        role="radio"
+                                        aria-checked={mode === option}
+                                        title={MODE_LABELS[option].title}
+                                        onClick={() => setMode(option)}
+                                        className={`px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${mode === option ? 'bg-isl-secondary text-white' : 'text-slate-300 hover:text-white'}`}
+                                    >
+                                        {MODE_LABELS[option].label}
+                                    </button>
+                                ))}
+                            </div>
                             <div className={`px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider flex items-center gap-2 transition-colors ${status === 'IDLE' ? 'bg-white/10 text-slate-300 border border-white/10' :
                                     status === 'LISTENING' ? 'bg-rose-500/20 text-rose-300 border border-rose-500/30' :
                                         status === 'PROCESSING' ? 'bg-amber-500/20 text-amber-300 border border-amber-500/30' :
@@ -206,38 +438,96 @@ const SpeechInput: React.FC = () => {
                             </div>
                         </div>
 
-                        {/* Primary Control: Tap to Speak */}
-                        <div className="w-full">
-                            <button
-                                disabled={status === 'PROCESSING'}
-                                onClick={toggleListening}
-                                className={`group relative flex items-center justify-center gap-3 w-full py-6 rounded-2xl text-xl font-bold shadow-lg shadow-blue-900/10 transition-all duration-300 transform active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed hover:-translate-y-1 hover:shadow-xl ${status === 'LISTENING'
-                                    ? 'bg-rose-500 text-white shadow-rose-500/30'
-                                    : 'bg-isl-primary text-white hover:bg-blue-700'
-                                    }`}
-                            >
-                                {status === 'LISTENING' ? (
-                                    <>
-                                        <div className="relative flex h-4 w-4">
-                                            <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-white opacity-75"></span>
-                                            <span className="relative inline-flex rounded-full h-4 w-4 bg-white"></span>
-                                        </div>
-                                        <span className="tracking-widest text-sm uppercase">Listening...</span>
-                                    </>
-                                ) : (
-                                    <>
-                                        <svg className="w-6 h-6 fill-current opacity-90 group-hover:scale-110 transition-transform duration-300" viewBox="0 0 24 24">
-                                            <path d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3z" /><path d="M17 11c0 2.76-2.24 5-5 5s-5-2.24-5-5H5c0 3.53 2.61 6.43 6 6.92V21h2v-3.08c3.39-.49 6-3.39 6-6.92h-2z" />
-                                        </svg>
-                                        <span className="tracking-wider">TAP TO SPEAK</span>
-                                    </>
-                                )}
-                            </button>
+                        {/* Input Mode Toggle */}
+                        <div className="flex items-center self-start rounded-full bg-white/10 border border-white/10 p-0.5" role="radiogroup" aria-label="Input mode">
+                            {(Object.keys(INPUT_MODE_LABELS) as InputMode[]).map(option => (
+                                <button
+                                    key={option}
+                                    role="radio"
+                                    aria-checked={inputMode === option}
+                                    title={INPUT_MODE_LABELS[option].title}
+                                    disabled={option === 'VOICE' && !speechSupported}
+                                    onClick={() => changeInputMode(option)}
+                                    className={`px-4 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors disabled:opacity-40 disabled:cursor-not-allowed ${inputMode === option ? 'bg-isl-secondary text-white' : 'text-slate-300 hover:text-white'}`}
+                                >
+                                    {INPUT_MODE_LABELS[option].label}
+                                </button>
+                            ))}
                         </div>
 
+                        {/* Primary Control: Type or Paste Text */}
+                        {inputMode === 'TEXT' ? (
+                            <form
+                                className="w-full flex flex-col gap-3"
+                                onSubmit={(e) => {
+                                    e.preventDefault();
+                                    interpretTypedText();
+                                }}
+                            >
+                                <textarea
+                                    value={typedText}
+                                    onChange={(e) => setTypedText(e.target.value)}
+                                    onKeyDown={(e) => {
+                                        // Ctrl/Cmd+Enter submits; Enter alone starts a new line
+                                        if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) {
+                                            e.preventDefault();
+                                            interpretTypedText();
+                                        }
+                                    }}
+                                    rows={5}
+                                    placeholder="Type or paste a paragraph. Each sentence is signed in turn."
+                                    aria-label="Text to interpret"
+                                    className="w-full p-4 rounded-2xl bg-white dark:bg-slate-800 border border-slate-200 dark:border-slate-700 text-base text-slate-800 dark:text-slate-100 shadow-sm resize-y focus:outline-none focus:ring-2 focus:ring-isl-primary/40"
+                                />
+                                <button
+                                    type="submit"
+                                    disabled={!typedText.trim()}
+                                    className="w-full py-4 rounded-2xl text-lg font-bold tracking-wider bg-isl-primary text-white shadow-lg shadow-blue-900/10 transition-all duration-300 active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed hover:-translate-y-0.5 hover:shadow-xl"
+                                >
+                                    INTERPRET TEXT
+                                </button>
+                            </form>
+                        ) : (
+                            /* Primary Control: Tap to Speak */
+                            <div className="w-full">
+                                <button
+                                    onClick={toggleListening}
+                                    className={`group relative flex items-center justify-center gap-3 w-full py-6 rounded-2xl text-xl font-bold shadow-lg shadow-blue-900/10 transition-all duration-300 transform active:scale-[0.98] disabled:opacity-50 disabled:cursor-not-allowed hover:-translate-y-1 hover:shadow-xl ${listening
+                                        ? 'bg-rose-500 text-white shadow-rose-500/30'
+                                        : 'bg-isl-primary text-white hover:bg-blue-700'
+                                        }`}
+                                >
+                                    {listening ? (
+                                        <>
+                                            <div className="relative flex h-4 w-4">
+                                                <span className="animate-ping absolute inline-flex h-full w-full rounded-full bg-white opacity-75"></span>
+                                                <span className="relative inline-flex rounded-full h-4 w-4 bg-white"></span>
+                                            </div>
+                                            <span className="tracking-widest text-sm uppercase">Listening...</span>
+                                        </>
+                                    ) : (
+                                        <>
+                                            <svg className="w-6 h-6 fill-current opacity-90 group-hover:scale-110 transition-transform duration-300" viewBox="0 0 24 24">
+                                                <path d="M12 14c1.66 0 3-1.34 3-3V5c0-1.66-1.34-3-3-3S9 3.34 9 5v6c0 1.66 1.34 3 3 3z" /><path d="M17 11c0 2.76-2.24 5-5 5s-5-2.24-5-5H5c0 3.53 2.61 6.43 6 6.92V21h2v-3.08c3.39-.49 6-3.39 6-6.92h-2z" />
+                                            </svg>
+                                            <span className="tracking-wider">TAP TO SPEAK</span>
+                                        </>
+                                    )}
+                                </button>
+                            </div>
+                        )}
+
                         {/* Feedback Cards Stack */}
                         <div className="flex flex-col gap-6">
 
+                            {/* Offline Notice */}
+                            {!online && (
+                                <div className="p-4 bg-slate-100 dark:bg-slate-800 border border-slate-200 dark:border-slate-700 rounded-xl text-slate-600 dark:text-slate-300 text-sm font-medium flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
+                                    <svg className="w-5 h-5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" /></svg>
+                                    You are offline. Signs already played on this device can still be interpreted; other words are skipped.
+                                </div>
+                            )}
+
                             {/* Error Message */}
                             {error && (
                                 <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-100 dark:border-red-800 rounded-xl text-red-600 dark:text-red-400 text-sm font-medium flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
@@ -246,6 +536,14 @@ const SpeechInput: React.FC = () => {
                                 </div>
                             )}
 
+                            {/* Fingerspelling Notice */}
+                            {notice && (
+                                <div className="p-4 bg-amber-50 dark:bg-amber-900/20 border border-amber-100 dark:border-amber-800 rounded-xl text-amber-700 dark:text-amber-400 text-sm font-medium flex items-center gap-3 animate-in fade-in slide-in-from-top-2">
+                                    <svg className="w-5 h-5 flex-shrink-0" fill="currentColor" viewBox="0 0 20 20"><path fillRule="evenodd" d="M18 10a8 8 0 11-16 0 8 8 0 0116 0zm-7-4a1 1 0 11-2 0 1 1 0 012 0zM9 9a1 1 0 000 2v3a1 1 0 001 1h1a1 1 0 100-2v-3a1 1 0 00-1-1H9z" clipRule="evenodd" /></svg>
+                                    {notice}
+                                </div>
+                            )}
+
                             {/* Transcription Box (English) */}
                             <div className="group relative p-6 bg-white/90 backdrop-blur-xl rounded-2xl shadow-sm border border-slate-200 min-h-[140px] flex flex-col transition-all duration-500 hover:shadow-lg hover:border-blue-300 overflow-hidden">
                                 <div className="absolute inset-0 bg-gradient-to-r from-transparent via-blue-50/30 to-transparent translate-x-[-200%] group-hover:translate-x-[200%] transition-transform duration-1000"></div>
@@ -258,11 +556,28 @@ const SpeechInput: React.FC = () => {
                                 </div>
                                 <div className="flex-1 flex items-center relative z-10">
                                     <p className="text-xl md:text-2xl font-medium text-slate-800 capitalize leading-relaxed w-full text-left font-sans tracking-tight">
-                                        {transcription ? (
+                                        {typedSentences ? (
+                                            // Typed text as written, with the sentence being signed highlighted
+                                            <span className="normal-case text-lg md:text-xl">
+                                                {typedSentences.map((sentence, idx) => {
+                                                    const isCurrent = playing && current?.sentenceIndex === idx;
+                                                    const failure = failedSentences[idx];
+                                                    return (
+                                                        <span
+                                                            key={idx}
+                                                            title={failure}
+                                                            className={`mr-1.5 rounded-md px-0.5 transition-colors duration-300 ${isCurrent ? 'bg-isl-primary/15 text-isl-primary font-semibold' : failure ? 'text-slate-400 line-through decoration-rose-400' : 'text-slate-600'}`}
+                                                        >
+                                                            {sentence}
+                                                        </span>
+                                                    );
+                                                })}
+                                            </span>
+                                        ) : transcription ? (
                                             <span className="animate-in fade-in slide-in-from-left-2 duration-500">{transcription}</span>
                                         ) : (
                                             <span className="text-slate-400 font-normal text-lg flex items-center gap-2">
-                                                Tap microphone to speak...
+                                                {inputMode === 'TEXT' ? 'Type or paste text above...' : 'Tap microphone to speak...'}
                                             </span>
                                         )}
                                     </p>
@@ -288,17 +603,38 @@ const SpeechInput: React.FC = () => {
 
                                 <div className="flex-1 flex items-center relative z-10 w-full pl-1">
                                     <p className="text-xl md:text-3xl font-black text-transparent bg-clip-text bg-gradient-to-r from-blue-700 to-blue-500 leading-relaxed w-full break-normal text-left font-mono tracking-tight">
-                                        {matchedWords && currentWordIndex >= 0 ? (
-                                            <>
-                                                <span className="opacity-30 blur-[1px] grayscale transition-all duration-300">{matchedWords.slice(0, currentWordIndex).join(' ')}</span>
-                                                {' '}
-                                                <span className="inline-block relative">
-                                                    <span className="absolute -inset-1 bg-blue-100 blur-sm rounded-lg opacity-50 animate-pulse"></span>
-                                                    <span className="relative z-10 text-blue-600 border-b-2 border-blue-400 pb-0.5 scale-110 transition-all duration-200 inline-block">{matchedWords[currentWordIndex]}</span>
-                                                </span>
-                                                {' '}
-                                                <span className="opacity-30 blur-[1px] grayscale transition-all duration-300">{matchedWords.slice(currentWordIndex + 1).join(' ')}</span>
-                                            </>
+                                        {tokens ? (
+                                            tokens.map((token, idx) => {
+                                                const isPlaying = segments !== null && currentWordIndex >= 0;
+                                                const isCurrent = isPlaying && segments[currentWordIndex]?.tokenIndex === idx;
+                                                const label = token.status === 'MATCHED' || token.status === 'SUBSTITUTED' ? token.signs[0] : token.token;
+
+                                                if (token.status === 'DROPPED') {
+                                                    return (
+                                                        <span key={`${token.token}-${idx}`} title="Skipped: no sign available" className="mr-3 inline-block text-slate-400 line-through decoration-rose-400 decoration-2 opacity-70">
+                                                            {token.token}
+                                                        </span>
+                                                    );
+                                                }
+
+                                                return isCurrent ? (
+                                                    <span key={`${token.token}-${idx}`} className="mr-3 inline-block relative">
+                                                        <span className="absolute -inset-1 bg-blue-100 blur-sm rounded-lg opacity-50 animate-pulse"></span>
+                                                        <span className={`relative z-10 border-b-2 pb-0.5 scale-110 transition-all duration-200 inline-block ${token.status === 'FINGERSPELLED' ? 'text-amber-500 border-amber-400' : 'text-blue-600 border-blue-400'}`}>{label}</span>
+                                                    </span>
+                                                ) : (
+                                                    <span
+                                                        key={`${token.token}-${idx}`}
+                                                        title={token.status === 'SUBSTITUTED' ? `Substituted for ${token.token}` : token.status === 'FINGERSPELLED' ? 'Fingerspelled' : undefined}
+                                                        className={`mr-3 inline-block transition-all duration-300 ${isPlaying ? 'opacity-30 blur-[1px] grayscale' : ''} ${token.status === 'FINGERSPELLED' ? 'text-amber-500 underline decoration-dotted' : 'text-blue-700'}`}
+                                                    >
+                                                        {label}
+                                                        {token.status === 'SUBSTITUTED' && (
+                                                            <sup className="ml-1 text-[10px] font-sans font-bold text-slate-400">{token.token}</sup>
+                                                        )}
+                                                    </span>
+                                                );
+                                            })
                                         ) : (
                                             gloss ? (
                                                 <span className="animate-in fade-in slide-in-from-bottom-2 duration-700">{gloss}</span>
@@ -312,22 +648,84 @@ const SpeechInput: React.FC = () => {
                                 </div>
                             </div>
 
+                            {/* Backlog Panel: utterances waiting for the player */}
+                            {(listening || waiting.length > 0) && (
+                                <div className="p-4 bg-white/90 dark:bg-slate-800 rounded-2xl shadow-sm border border-slate-200 dark:border-slate-700 flex flex-col gap-3">
+                                    <div className="flex items-center justify-between gap-3">
+                                        <span className="text-[10px] font-bold text-slate-500 uppercase tracking-widest select-none">
+                                            Up Next ({waiting.length}{pending > 0 && playing ? ` + ${pending} interpreting` : ''})
+                                        </span>
+                                        {inputMode === 'VOICE' && (
+                                            <div className="flex items-center rounded-full bg-slate-100 dark:bg-slate-700 p-0.5" role="radiogroup" aria-label="When falling behind">
+                                                {(Object.keys(CATCH_UP_LABELS) as CatchUpPolicy[]).map(option => (
+                                                    <button
+                                                        key={option}
+                                                        role="radio"
+                                                        aria-checked={catchUpPolicy === option}
+                                                        title={CATCH_UP_LABELS[option].title}
+                                                        onClick={() => changeCatchUpPolicy(option)}
+                                                        className={`px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider transition-colors ${catchUpPolicy === option ? 'bg-isl-primary text-white' : 'text-slate-500 dark:text-slate-300 hover:text-slate-800'}`}
+                                                    >
+                                                        {CATCH_UP_LABELS[option].label}
+                                                    </button>
+                                                ))}
+                                            </div>
+                                        )}
+                                    </div>
+                                    {draft && (
+                                        <div className="flex flex-col px-3 py-2 rounded-xl border border-dashed border-slate-300 dark:border-slate-600" title="Draft: still listening">
+                                            <span className="flex items-center gap-2 font-mono text-sm font-bold text-slate-500 dark:text-slate-300">
+                                                <span className="w-1.5 h-1.5 rounded-full bg-rose-500 animate-pulse flex-shrink-0" />
+                                                {draft.gloss || '…'}
+                                            </span>
+                                            <span className="text-xs text-slate-400 italic truncate">{draft.text}</span>
+                                        </div>
+                                    )}
+                                    {waiting.length === 0 ? (
+                                        !draft && <span className="text-sm text-slate-400">Sentences you say while signs are playing will wait here.</span>
+                                    ) : (
+                                        <ol className="flex flex-col gap-2">
+                                            {waiting.map(item => (
+                                                <li key={item.id} className="flex flex-col px-3 py-2 rounded-xl bg-slate-50 dark:bg-slate-900/40 border border-slate-100 dark:border-slate-700">
+                                                    <span className="font-mono text-sm font-bold text-blue-700 dark:text-blue-400">{item.gloss}</span>
+                                                    {item.text && <span className="text-xs text-slate-500 truncate">{item.text}</span>}
+                                                </li>
+                                            ))}
+                                        </ol>
+                                    )}
+                                    {condensed > 0 && (
+                                        <span className="text-xs text-slate-400">
+                                            {condensed} earlier {condensed === 1 ? 'sentence was' : 'sentences were'} skipped or summarized to keep up.
+                                        </span>
+                                    )}
+                                </div>
+                            )}
+
                             {/* Supported Sentences Panel */}
                             <div className="pt-6 border-t border-slate-100 dark:border-slate-800">
                                 <div className="flex items-center gap-2 mb-4">
                                     <span className="bg-blue-100 text-blue-700 p-1 rounded"><svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9.663 17h4.673M12 3v1m6.364 1.636l-.707.707M21 12h-1M4 12H3m3.343-5.657l-.707-.707m2.828 9.9a5 5 0 117.072 0l-.548.547A3.374 3.374 0 0014 18.469V19a2 2 0 11-4 0v-.531c0-.895-.356-1.754-.988-2.386l-.548-.547z" /></svg></span>
-                                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Supported Sentences (Demo)</span>
+                                    <span className="text-xs font-bold text-slate-500 uppercase tracking-wider">Curated Sentences (Demo)</span>
                                 </div>
                                 <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
-                                    {['Hello', 'I like computer', 'Where is the library', 'Nice to meet you', 'What is your name', 'Good morning'].map((phrase) => (
-                                        <div
-                                            key={phrase}
-                                            className="px-4 py-3 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl text-sm font-medium text-slate-600 dark:text-slate-300 shadow-sm flex items-center justify-between group hover:border-isl-secondary/50 hover:shadow-md transition-all duration-200"
-                                        >
-                                            <span>"{phrase}"</span>
-                                            <span className="text-[10px] text-slate-300 group-hover:text-isl-secondary transition-colors">Try</span>
-                                        </div>
-                                    ))}
+                                    {curatedSentences === null ? (
+                                        <span className="text-sm text-slate-400">Loading sentences...</span>
+                                    ) : curatedSentences.length === 0 ? (
+                                        <span className="text-sm text-slate-400">No curated sentences available.</span>
+                                    ) : (
+                                        curatedSentences.map((sentence) => (
+                                            <button
+                                                key={sentence.id}
+                                                disabled={status === 'PROCESSING'}
+                                                onClick={() => playCuratedSentence(sentence)}
+                                                title={`Signs: ${sentence.words.join(' · ')}`}
+                                                className="px-4 py-3 bg-white dark:bg-slate-800 border border-slate-100 dark:border-slate-700 rounded-xl text-sm font-medium text-slate-600 dark:text-slate-300 shadow-sm flex items-center justify-between group hover:border-isl-secondary/50 hover:shadow-md transition-all duration-200 text-left disabled:opacity-50 disabled:cursor-not-allowed"
+                                            >
+                                                <span className="font-mono">{sentence.gloss}</span>
+                                                <span className="text-[10px] text-slate-300 group-hover:text-isl-secondary transition-colors">Play</span>
+                                            </button>
+                                        ))
+                                    )}
                                 </div>
                             </div>
                         </div>
@@ -338,11 +736,22 @@ const SpeechInput: React.FC = () => {
                         {/* Video Container */}
                         <div className="w-full aspect-video lg:aspect-[4/3] xl:aspect-video h-auto max-h-[600px] bg-white dark:bg-slate-800 rounded-2xl shadow-xl overflow-hidden border border-slate-200 dark:border-slate-700 relative group transition-all duration-500">
 
-                            {/* Inner Video Area */}
-                            {status === 'PLAYING' && matchedWords ? (
+                            {/* Sign Language Label */}
+                            <div
+                                className="absolute top-3 right-3 z-10 bg-slate-900/70 text-white px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-wider shadow"
+                                title={`Signs from the ${SIGN_LANGUAGES[language].dataset} dataset`}
+                            >
+                                {SIGN_LANGUAGES[language].name} · {SIGN_LANGUAGES[language].dataset}
+                            </div>
+
+                            {/* Inner Video Area: stays up after playback so the sentence can be replayed */}
+                            {current ? (
                                 <VideoSequence
-                                    words={matchedWords}
-                                    videoUrls={videoUrls}
+                                    key={current.id}
+                                    language={language}
+                                    segments={current.segments}
+                                    clips={current.clips}
+                                    catchUpRate={isLive(current) ? catchUpRate(waiting.filter(isLive).length, catchUpPolicy, CATCH_UP_THRESHOLD) : 1}
                                     onProgress={handlePlaybackProgress}
                                     onComplete={handlePlaybackComplete}
                                 />
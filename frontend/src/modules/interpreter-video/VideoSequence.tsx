@@ -1,49 +1,327 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState, useRef, useEffect, useCallback, useEffectEvent } from 'react';
 import { videoCache, isValidSignUrl } from './CacheManager';
+import type { SignSegment } from './SentenceMatcher';
+import { loadSignVariants } from './signVariants';
+import type { SignLanguage } from '../../../../shared/signLanguages';
+import { SIGN_CROSSFADE_MS } from '../../shared/constants';
+import type { SignMetadata, SignVariant } from '../../shared/types';
 
 interface VideoSequenceProps {
-    words: string[];
-    videoUrls: Record<string, string>; // Maps word to its CDN URL
-    onProgress?: (index: number) => void;
+    language: SignLanguage;
+    segments: SignSegment[];
+    clips: Record<string, SignMetadata>; // Maps sign to its clip URL and signing segment
+    onProgress?: (index: number) => void; // Every word that starts playing, including seeks and replays
     onComplete?: () => void;
+    crossfadeMs?: number; // Fade between consecutive signs; 0 cuts straight to the next clip
+    catchUpRate?: number; // Multiplies the selected speed while a backlog of sentences is waiting
 }
 
+/**
+ * A cached video element attached to one of the two buffer slots.
+ */
+interface BufferedClip {
+    video: HTMLVideoElement;
+    index: number;
+    url: string;
+}
+
+type Slot = 0 | 1;
+
+const SLOTS: Slot[] = [0, 1];
+
+// Seeks to where the signing starts, once the clip's metadata is in
+const cue = (video: HTMLVideoElement, startMs: number | null) => {
+    const seekToStart = () => {
+        video.currentTime = (startMs ?? 0) / 1000;
+    };
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+        seekToStart();
+    } else {
+        video.addEventListener('loadedmetadata', seekToStart, { once: true });
+    }
+};
+
+const releaseSlot = (buffers: (BufferedClip | null)[], slot: Slot) => {
+    const buffered = buffers[slot];
+    if (!buffered) return;
+    videoCache.release(buffered.video);
+    buffers[slot] = null;
+};
+
+const PLAYBACK_RATES = [0.5, 0.75, 1, 1.25, 1.5, 2];
+
+const controlButtonClass = 'w-9 h-9 rounded-full flex items-center justify-center text-sm font-bold transition-colors disabled:opacity-30 disabled:cursor-not-allowed';
+
 /**
  * VideoSequence Component
  * 
  * Plays a sequence of sign language videos one after another.
  * Rules:
- * - Sequential playback based on words array.
- * - Move to next on 'ended'.
+ * - Sequential playback based on segments array.
+ * - Only the signing segment of each clip is played (startMs to endMs), skipping the idle
+ *   lead-in and tail; clips without a segment play in full.
+ * - Move to next at the end of the segment, or on 'ended'.
  * - Show progress (X / Total).
- * - Preload all videos in the background.
+ * - Preload all videos in the background, and play the preloaded elements themselves.
+ * - Double buffering: two stacked slots hold the clip on screen and the next one, already
+ *   seeked to its signing segment and decoded, so the next sign starts without a black frame.
+ *   The incoming clip fades in over the outgoing one (crossfadeMs, 0 to cut).
+ * - Fingerspelled letters are labelled with the word they spell.
+ * - The learner can cycle through other signers of the current word, when it has any; the choice sticks
+ *   for later occurrences of that word in the sequence.
+ * - Controls: pause, previous/next word, 0.5x-2x speed, loop the current sign and replay
+ *   the whole sentence. Sequence bar dots jump to their word.
+ * - The last frame stays up after the sentence ends, so it can be replayed.
  */
-const VideoSequence: React.FC<VideoSequenceProps> = ({ words, videoUrls, onProgress, onComplete }) => {
+const VideoSequence: React.FC<VideoSequenceProps> = ({ language, segments, clips, onProgress, onComplete, crossfadeMs = SIGN_CROSSFADE_MS, catchUpRate = 1 }) => {
     const [currentIndex, setCurrentIndex] = useState(0);
-    const videoRef = useRef<HTMLVideoElement>(null);
+    // Bumped to restart the current clip (loop, replay, seeking to the word already showing)
+    const [playCount, setPlayCount] = useState(0);
+    const [paused, setPaused] = useState(false);
+    const [finished, setFinished] = useState(false);
+    const [playbackRate, setPlaybackRate] = useState(1);
+    const [loopCurrent, setLoopCurrent] = useState(false);
+    const effectiveRate = playbackRate * catchUpRate;
+    // Clip on screen
+    const videoRef = useRef<HTMLVideoElement | null>(null);
+    const slotRefs = useRef<(HTMLDivElement | null)[]>([null, null]);
+    const buffersRef = useRef<(BufferedClip | null)[]>([null, null]);
+    const visibleSlotRef = useRef<Slot | null>(null);
+    const fadeTimerRef = useRef<number | undefined>(undefined);
+    // Finishes the running crossfade early, before the next switch
+    const settleFadeRef = useRef<(() => void) | null>(null);
+    // Segment end and 'ended' can both fire for the same clip; advance only once per play
+    const endedPlayRef = useRef('');
+    // Recordings chosen by the learner, by sign; the preferred clip is used otherwise
+    const [chosenVariants, setChosenVariants] = useState<Record<string, { index: number; count: number; variant: SignVariant }>>({});
+    const [loadingVariants, setLoadingVariants] = useState(false);
+    // Recordings per sign once loaded; the signer control is only offered when a word has more than one
+    const [variantCounts, setVariantCounts] = useState<Record<string, number>>({});
+
+    const clipFor = useCallback((sign: string): SignVariant | undefined =>
+        chosenVariants[sign]?.variant ?? clips[sign], [chosenVariants, clips]);
 
     // Preload all videos in the sequence immediately
     useEffect(() => {
-        const urls = words.map(word => videoUrls[word]).filter(Boolean);
+        const urls = segments.map(segment => clipFor(segment.sign)?.videoUrl).filter((url): url is string => Boolean(url));
         videoCache.preload(urls);
-    }, [words, videoUrls]);
+    }, [segments, clipFor]);
 
-    // Notify parent of progress
+    // Notify parent of progress; nothing is playing once the sentence has finished
     useEffect(() => {
-        if (onProgress) onProgress(currentIndex);
-    }, [currentIndex, onProgress]);
+        if (onProgress && !finished) onProgress(currentIndex);
+    }, [currentIndex, playCount, finished, onProgress]);
 
     // Handle video ended event
-    const handleEnded = () => {
-        if (currentIndex < words.length - 1) {
+    const handleEnded = useCallback(() => {
+        const play = `${currentIndex}-${playCount}`;
+        if (endedPlayRef.current === play) return;
+        endedPlayRef.current = play;
+
+        if (loopCurrent) {
+            setPlayCount(prev => prev + 1);
+        } else if (currentIndex < segments.length - 1) {
             setCurrentIndex(prev => prev + 1);
         } else {
+            setFinished(true);
             if (onComplete) onComplete();
         }
+    }, [currentIndex, playCount, loopCurrent, segments.length, onComplete]);
+
+    // Plays a word from its start, whether it is the current one or not
+    const seek = (index: number) => {
+        if (index < 0 || index >= segments.length) return;
+        setCurrentIndex(index);
+        setPlayCount(prev => prev + 1);
+        setFinished(false);
+        setPaused(false);
     };
 
-    const currentWord = words[currentIndex];
-    const currentUrl = videoUrls[currentWord];
+    const togglePaused = () => {
+        // Resuming after the end starts the sentence over
+        if (finished) {
+            seek(0);
+            return;
+        }
+        setPaused(prev => !prev);
+    };
+
+    const currentSegment = segments[currentIndex];
+    const currentClip = clipFor(currentSegment.sign);
+    const currentChoice = chosenVariants[currentSegment.sign];
+
+    // Replays the current word with the next recording of it
+    const handleNextSigner = async () => {
+        const sign = currentSegment.sign;
+        setLoadingVariants(true);
+        try {
+            const variants = await loadSignVariants(sign, language);
+            if (variants.length < 2) return;
+            const index = ((chosenVariants[sign]?.index ?? 0) + 1) % variants.length;
+            setChosenVariants(prev => ({ ...prev, [sign]: { index, count: variants.length, variant: variants[index] } }));
+        } catch (err) {
+            console.error(`❌ [Player] Could not load other signers for "${sign}":`, err);
+        } finally {
+            setLoadingVariants(false);
+        }
+    };
+
+    const currentSign = currentSegment.sign;
+    const hasOtherSigners = (variantCounts[currentSign] ?? 0) > 1;
+
+    useEffect(() => {
+        if (variantCounts[currentSign] !== undefined) return;
+        let cancelled = false;
+        loadSignVariants(currentSign, language)
+            .then(variants => {
+                if (!cancelled) setVariantCounts(prev => ({ ...prev, [currentSign]: variants.length }));
+            })
+            .catch(err => console.warn(`⚠️ [Player] Could not load the recordings of "${currentSign}":`, err));
+        return () => {
+            cancelled = true;
+        };
+    }, [currentSign, language, variantCounts]);
+
+    const currentUrl = currentClip?.videoUrl;
+    const startMs = currentClip?.startMs ?? null;
+    const endMs = currentClip?.endMs ?? null;
+
+    // Attaches a clip to a slot, cued to the start of its signing segment (skipping the idle lead-in)
+    const loadSlot = (slot: Slot, index: number, url: string, clipStartMs: number | null) => {
+        releaseSlot(buffersRef.current, slot);
+        const video = videoCache.acquire(url);
+        video.className = 'w-full h-full object-cover';
+        slotRefs.current[slot]?.appendChild(video);
+        buffersRef.current[slot] = { video, index, url };
+        cue(video, clipStartMs);
+        return video;
+    };
+
+    // Buffers the word after `index` in a hidden slot
+    const prepareNext = (slot: Slot, index: number) => {
+        releaseSlot(buffersRef.current, slot);
+        const next = segments[index + 1];
+        const clip = next && clipFor(next.sign);
+        if (clip && isValidSignUrl(clip.videoUrl)) {
+            loadSlot(slot, index + 1, clip.videoUrl, clip.startMs);
+        }
+    };
+
+    // Brings a slot to the front. The outgoing clip stays underneath until the fade is over,
+    // then its slot is reused for the word after this one.
+    const showSlot = (incoming: Slot, index: number) => {
+        const outgoing = visibleSlotRef.current;
+        const incomingElement = slotRefs.current[incoming];
+        visibleSlotRef.current = incoming;
+        if (incomingElement) {
+            incomingElement.style.zIndex = '1';
+            incomingElement.style.transition = outgoing === null || crossfadeMs === 0 ? 'none' : `opacity ${crossfadeMs}ms linear`;
+            incomingElement.style.opacity = '1';
+        }
+
+        const outgoingSlot: Slot = incoming === 0 ? 1 : 0;
+        const outgoingElement = slotRefs.current[outgoingSlot];
+        if (outgoingElement) outgoingElement.style.zIndex = '0';
+
+        const settle = () => {
+            window.clearTimeout(fadeTimerRef.current);
+            settleFadeRef.current = null;
+            if (outgoingElement) {
+                outgoingElement.style.transition = 'none';
+                outgoingElement.style.opacity = '0';
+            }
+            prepareNext(outgoingSlot, index);
+        };
+        settleFadeRef.current = settle;
+        fadeTimerRef.current = window.setTimeout(settle, outgoing === null ? 0 : crossfadeMs);
+    };
+
+    // Starts the current word: from the buffer when it was prepared, in place when it is the
+    // clip already on screen (loop, replay), otherwise loaded into the hidden slot
+    const startClip = useEffectEvent(() => {
+        if (!currentUrl || !isValidSignUrl(currentUrl)) return;
+        settleFadeRef.current?.();
+
+        const visible = visibleSlotRef.current;
+        const onScreen = visible === null ? null : buffersRef.current[visible];
+        let video: HTMLVideoElement;
+        if (onScreen && onScreen.index === currentIndex && onScreen.url === currentUrl) {
+            video = onScreen.video;
+            cue(video, startMs);
+        } else {
+            const incoming: Slot = visible === 0 ? 1 : 0;
+            const prepared = buffersRef.current[incoming];
+            video = prepared && prepared.index === currentIndex && prepared.url === currentUrl
+                ? prepared.video
+                : loadSlot(incoming, currentIndex, currentUrl, startMs);
+            showSlot(incoming, currentIndex);
+        }
+
+        videoRef.current = video;
+        // Loading a clip resets its speed to the default one
+        video.defaultPlaybackRate = effectiveRate;
+        video.playbackRate = effectiveRate;
+        if (!paused) {
+            video.play().catch(() => { /* Interrupted by the next switch */ });
+        }
+    });
+
+    useEffect(() => {
+        startClip();
+    }, [currentIndex, playCount, currentUrl]);
+
+    // Gives the elements back to the cache
+    useEffect(() => {
+        const buffers = buffersRef.current;
+        return () => {
+            window.clearTimeout(fadeTimerRef.current);
+            SLOTS.forEach(slot => releaseSlot(buffers, slot));
+        };
+    }, []);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        video.defaultPlaybackRate = effectiveRate;
+        video.playbackRate = effectiveRate;
+    }, [effectiveRate]);
+
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+        if (paused) {
+            video.pause();
+        } else if (video.paused && !finished) {
+            video.play().catch(() => { /* Interrupted by the next clip loading */ });
+        }
+    }, [paused, finished, currentIndex, playCount]);
+
+    // Advance at the end of the clip, or stop at the end of the signing segment. The segment
+    // end is checked every frame because 'timeupdate' only fires a few times per second.
+    useEffect(() => {
+        const video = videoRef.current;
+        if (!video) return;
+
+        video.addEventListener('ended', handleEnded);
+        if (endMs === null) {
+            return () => video.removeEventListener('ended', handleEnded);
+        }
+
+        let frame = 0;
+        const checkEnd = () => {
+            if (video.currentTime >= endMs / 1000) {
+                video.pause();
+                handleEnded();
+                return;
+            }
+            frame = requestAnimationFrame(checkEnd);
+        };
+        frame = requestAnimationFrame(checkEnd);
+        return () => {
+            cancelAnimationFrame(frame);
+            video.removeEventListener('ended', handleEnded);
+        };
+    }, [currentIndex, playCount, currentUrl, endMs, handleEnded]);
 
     // If URL is missing or invalid, showing a placeholder state
     if (!currentUrl || !isValidSignUrl(currentUrl)) {
@@ -58,35 +336,140 @@ const VideoSequence: React.FC<VideoSequenceProps> = ({ words, videoUrls, onProgr
         <div className="w-full max-w-2xl mx-auto space-y-4">
             {/* Video Container */}
             <div className="relative aspect-video bg-black rounded-3xl overflow-hidden shadow-xl border-4 border-isl-card">
-                <video
-                    ref={videoRef}
-                    key={currentUrl} // Key change forces re-render/reload for new source
-                    src={currentUrl}
-                    autoPlay
-                    muted
-                    playsInline
-                    onEnded={handleEnded}
-                    className="w-full h-full object-cover"
-                />
+                {/* Buffer slots; the player attaches the cached video elements to them */}
+                {SLOTS.map(slot => (
+                    <div
+                        key={slot}
+                        ref={element => { slotRefs.current[slot] = element; }}
+                        className="absolute inset-0 opacity-0"
+                    />
+                ))}
+
+                {/* Overlay Fingerspelling Badge */}
+                {currentSegment.fingerspelled && (
+                    <div className="absolute z-10 top-4 left-4 bg-amber-500/90 text-white px-3 py-1 rounded-full text-xs font-bold uppercase tracking-wider shadow-lg">
+                        Fingerspelling
+                    </div>
+                )}
 
                 {/* Overlay Progress */}
-                <div className="absolute bottom-4 right-4 bg-isl-primary/90 text-white px-3 py-1 rounded-full text-sm font-bold shadow-lg">
-                    {currentIndex + 1} / {words.length}
+                <div className="absolute z-10 bottom-4 right-4 bg-isl-primary/90 text-white px-3 py-1 rounded-full text-sm font-bold shadow-lg">
+                    {currentIndex + 1} / {segments.length}
                 </div>
+
+                {/* Catch-up Indicator */}
+                {catchUpRate > 1 && (
+                    <div className="absolute z-10 bottom-4 left-4 bg-slate-900/70 text-white px-3 py-1 rounded-full text-xs font-bold shadow-lg" title="Playing faster to catch up with the speaker">
+                        Catching up · {Number(effectiveRate.toFixed(2))}x
+                    </div>
+                )}
+            </div>
+
+            {/* Playback Controls */}
+            <div className="flex flex-wrap items-center justify-center gap-2">
+                <button
+                    type="button"
+                    onClick={() => seek(currentIndex - 1)}
+                    disabled={currentIndex === 0}
+                    title="Previous word"
+                    aria-label="Previous word"
+                    className={`${controlButtonClass} text-isl-primary bg-isl-primary/10 hover:bg-isl-primary/20`}
+                >
+                    ⏮
+                </button>
+                <button
+                    type="button"
+                    onClick={togglePaused}
+                    title={paused || finished ? 'Play' : 'Pause'}
+                    aria-label={paused || finished ? 'Play' : 'Pause'}
+                    className={`${controlButtonClass} w-11 h-11 text-white bg-isl-primary hover:bg-isl-primary/90`}
+                >
+                    {paused || finished ? '▶' : '⏸'}
+                </button>
+                <button
+                    type="button"
+                    onClick={() => seek(currentIndex + 1)}
+                    disabled={currentIndex === segments.length - 1}
+                    title="Next word"
+                    aria-label="Next word"
+                    className={`${controlButtonClass} text-isl-primary bg-isl-primary/10 hover:bg-isl-primary/20`}
+                >
+                    ⏭
+                </button>
+                <button
+                    type="button"
+                    onClick={() => seek(0)}
+                    title="Replay the whole sentence"
+                    aria-label="Replay the whole sentence"
+                    className={`${controlButtonClass} ${finished ? 'text-white bg-isl-primary hover:bg-isl-primary/90' : 'text-isl-primary bg-isl-primary/10 hover:bg-isl-primary/20'}`}
+                >
+                    ↺
+                </button>
+                <button
+                    type="button"
+                    onClick={() => setLoopCurrent(prev => !prev)}
+                    title={loopCurrent ? 'Stop repeating this sign' : 'Repeat this sign'}
+                    aria-label="Repeat this sign"
+                    aria-pressed={loopCurrent}
+                    className={`${controlButtonClass} ${loopCurrent ? 'text-white bg-isl-primary hover:bg-isl-primary/90' : 'text-isl-primary bg-isl-primary/10 hover:bg-isl-primary/20'}`}
+                >
+                    🔁
+                </button>
+                <select
+                    value={playbackRate}
+                    onChange={event => setPlaybackRate(Number(event.target.value))}
+                    title="Playback speed"
+                    aria-label="Playback speed"
+                    className="h-9 px-2 rounded-full text-xs font-bold text-isl-primary bg-isl-primary/10 hover:bg-isl-primary/20 border-none outline-none cursor-pointer"
+                >
+                    {PLAYBACK_RATES.map(rate => (
+                        <option key={rate} value={rate}>{rate}x</option>
+                    ))}
+                </select>
             </div>
 
             {/* Current Word Indicator */}
             <div className="flex flex-col items-center">
-                <span className="text-sm font-medium text-isl-text-secondary uppercase tracking-widest">Playing Sign</span>
-                <h2 className="text-3xl font-bold text-isl-primary uppercase mt-1">{currentWord}</h2>
+                {currentSegment.fingerspelled ? (
+                    <>
+                        <span className="text-sm font-medium text-amber-600 uppercase tracking-widest">Fingerspelling {currentSegment.source}</span>
+                        <h2 className="text-3xl font-bold text-amber-500 uppercase mt-1">{currentSegment.sign}</h2>
+                    </>
+                ) : (
+                    <>
+                        <span className="text-sm font-medium text-isl-text-secondary uppercase tracking-widest">Playing Sign</span>
+                        <h2 className="text-3xl font-bold text-isl-primary uppercase mt-1">{currentSegment.sign}</h2>
+                    </>
+                )}
+                {hasOtherSigners && (
+                    <button
+                        type="button"
+                        onClick={handleNextSigner}
+                        disabled={loadingVariants}
+                        title="Watch this word signed by someone else"
+                        className="mt-2 px-3 py-1 rounded-full text-xs font-semibold text-isl-primary bg-isl-primary/10 hover:bg-isl-primary/20 disabled:opacity-50 transition-colors"
+                    >
+                        {loadingVariants ? 'Loading…' : 'Another signer'}
+                        {currentChoice && ` (${currentChoice.index + 1} / ${currentChoice.count})`}
+                    </button>
+                )}
             </div>
 
-            {/* Sequence Bar */}
+            {/* Sequence Bar: each dot plays its word */}
             <div className="flex gap-2 justify-center mt-4">
-                {words.map((word, idx) => (
-                    <div
-                        key={`${word}-${idx}`}
-                        className={`h-2 rounded-full transition-all duration-300 ${idx === currentIndex ? 'w-8 bg-isl-primary' : idx < currentIndex ? 'w-4 bg-isl-primary/40' : 'w-4 bg-isl-card'
+                {segments.map((segment, idx) => (
+                    <button
+                        type="button"
+                        key={`${segment.sign}-${idx}`}
+                        onClick={() => seek(idx)}
+                        title={segment.fingerspelled ? `${segment.sign} (${segment.source})` : segment.sign}
+                        aria-label={`Play ${segment.sign}`}
+                        aria-current={idx === currentIndex ? 'step' : undefined}
+                        className={`h-2 rounded-full cursor-pointer hover:opacity-80 transition-all duration-300 ${idx === currentIndex
+                            ? (segment.fingerspelled ? 'w-8 bg-amber-500' : 'w-8 bg-isl-primary')
+                            : idx < currentIndex
+                                ? (segment.fingerspelled ? 'w-4 bg-amber-500/40' : 'w-4 bg-isl-primary/40')
+                                : (segment.fingerspelled ? 'w-4 bg-amber-100' : 'w-4 bg-isl-card')
                             }`}
                     />
                 ))}
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import type { SignMetadata } from '../../shared/types';
+import { catchUp, catchUpRate } from './interpretationQueue';
+import type { Interpretation } from './interpreter';
+
+const clip = (word: string): SignMetadata => ({
+    language: 'ASL',
+    word,
+    videoUrl: `${word}.mp4`,
+    signerId: null,
+    subset: null,
+    source: null,
+    durationMs: 1000,
+    startMs: null,
+    endMs: null,
+    width: null,
+    height: null,
+    fps: null,
+    dominantHand: 'RIGHT',
+});
+
+// Words in lowercase are fingerspelled; sentenceIndex marks typed text
+const utterance = (id: number, words: string[], sentenceIndex: number | null = null): Interpretation => {
+    const segments = words.flatMap((word, tokenIndex) => word === word.toUpperCase()
+        ? [{ sign: word, source: word, fingerspelled: false, tokenIndex }]
+        : word.toUpperCase().split('').map(letter => ({ sign: letter, source: word.toUpperCase(), fingerspelled: true, tokenIndex })));
+    return {
+        id,
+        text: words.join(' ').toLowerCase(),
+        gloss: words.join(' ').toUpperCase(),
+        tokens: words.map(word => ({
+            token: word.toUpperCase(),
+            status: word === word.toUpperCase() ? 'MATCHED' : 'FINGERSPELLED',
+            signs: word === word.toUpperCase() ? [word] : word.toUpperCase().split(''),
+            missingLetters: [],
+        })),
+        segments,
+        clips: Object.fromEntries(segments.map(segment => [segment.sign, clip(segment.sign)])),
+        notice: null,
+        sentenceIndex,
+    };
+};
+
+const ids = (queue: Interpretation[]) => queue.map(item => item.id);
+
+describe('catchUp', () => {
+    const backlog = [utterance(1, ['HELLO']), utterance(2, ['I', 'GO']), utterance(3, ['YOU', 'GO']), utterance(4, ['BYE'])];
+
+    it('leaves a queue within the threshold alone', () => {
+        expect(catchUp(backlog.slice(0, 2), 'DROP_OLDEST', 2)).toEqual({ queue: backlog.slice(0, 2), condensed: 0 });
+    });
+
+    it('keeps the newest utterances with DROP_OLDEST', () => {
+        const result = catchUp(backlog, 'DROP_OLDEST', 2);
+        expect(ids(result.queue)).toEqual([3, 4]);
+        expect(result.condensed).toBe(2);
+    });
+
+    it('leaves the queue to the playback rate with SPEED_UP', () => {
+        expect(catchUp(backlog, 'SPEED_UP', 2)).toEqual({ queue: backlog, condensed: 0 });
+    });
+
+    it('merges the backlog into one utterance with SUMMARIZE', () => {
+        const result = catchUp(backlog, 'SUMMARIZE', 2);
+        expect(result.condensed).toBe(3);
+        expect(result.queue).toHaveLength(1);
+
+        const [summary] = result.queue;
+        expect(summary.id).toBe(4);
+        expect(summary.gloss).toBe('HELLO … I GO … YOU GO … BYE');
+        // GO is not repeated right after itself
+        expect(summary.segments.map(segment => segment.sign)).toEqual(['HELLO', 'I', 'GO', 'YOU', 'GO', 'BYE']);
+        expect(summary.segments.map(segment => segment.tokenIndex)).toEqual([0, 1, 2, 3, 4, 5]);
+    });
+
+    it('leaves fingerspelling and immediate repeats out of a summary', () => {
+        const result = catchUp([utterance(1, ['I', 'GO']), utterance(2, ['GO', 'ravi']), utterance(3, ['BYE'])], 'SUMMARIZE', 2);
+
+        const [summary] = result.queue;
+        expect(summary.segments.map(segment => segment.sign)).toEqual(['I', 'GO', 'BYE']);
+        expect(summary.tokens.map(token => token.status)).toEqual(['MATCHED', 'MATCHED', 'DROPPED', 'DROPPED', 'MATCHED']);
+        expect(Object.keys(summary.clips)).toEqual(['I', 'GO', 'BYE']);
+    });
+
+    it('drops the whole backlog when nothing in it can be summarized', () => {
+        expect(catchUp([utterance(1, ['ravi']), utterance(2, ['anu']), utterance(3, ['joy'])], 'SUMMARIZE', 2))
+            .toEqual({ queue: [], condensed: 3 });
+    });
+
+    it('keeps typed sentences in place and out of the backlog', () => {
+        const queue = [utterance(1, ['HELLO'], 0), utterance(2, ['I', 'GO']), utterance(3, ['BYE'], 1), utterance(4, ['YOU']), utterance(5, ['ME'])];
+
+        expect(catchUp(queue.slice(0, 4), 'DROP_OLDEST', 2).condensed).toBe(0);
+
+        const dropped = catchUp(queue, 'DROP_OLDEST', 2);
+        expect(ids(dropped.queue)).toEqual([1, 3, 4, 5]);
+        expect(dropped.condensed).toBe(1);
+
+        const summarized = catchUp(queue, 'SUMMARIZE', 2);
+        expect(ids(summarized.queue)).toEqual([1, 3, 5]);
+        expect(summarized.queue[2].gloss).toBe('I GO … YOU … ME');
+        expect(summarized.condensed).toBe(2);
+    });
+});
+
+describe('catchUpRate', () => {
+    it('plays at normal speed up to the threshold and with other policies', () => {
+        expect(catchUpRate(2, 'SPEED_UP', 2)).toBe(1);
+        expect(catchUpRate(6, 'DROP_OLDEST', 2)).toBe(1);
+        expect(catchUpRate(6, 'SUMMARIZE', 2)).toBe(1);
+    });
+
+    it('speeds up with the backlog, up to twice the speed', () => {
+        expect(catchUpRate(3, 'SPEED_UP', 2)).toBe(1.25);
+        expect(catchUpRate(5, 'SPEED_UP', 2)).toBe(1.75);
+        expect(catchUpRate(20, 'SPEED_UP', 2)).toBe(2);
+    });
+});
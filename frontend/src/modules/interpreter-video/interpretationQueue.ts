@@ -0,0 +1,97 @@
+/**
+ * Interpretation Queue
+ *
+ * Live speech arrives faster than it can be signed. Utterances wait here, in order, until the
+ * player is free. Once more than CATCH_UP_THRESHOLD are waiting, the catch-up policy applies:
+ * - SPEED_UP: playback gets faster the longer the backlog (up to 2x), and slows down as it drains.
+ * - DROP_OLDEST: only the newest utterances are kept; the speaker's latest words matter most.
+ * - SUMMARIZE: the waiting utterances are merged into one, keeping only their signed words
+ *   (fingerspelling is the slowest part of a sentence) without immediate repeats.
+ * Typed text is read at the user's own pace and never needs catching up.
+ */
+
+import type { TokenMatch } from '../../../../shared/tokenMatcher';
+import type { CatchUpPolicy } from '../../shared/constants';
+import type { Interpretation } from './interpreter';
+import type { SignSegment } from './SentenceMatcher';
+
+export interface CatchUpResult {
+    queue: Interpretation[];
+    /** Utterances dropped, or merged into the summary of a newer one. */
+    condensed: number;
+}
+
+const SPEED_UP_STEP = 0.25;
+const MAX_CATCH_UP_RATE = 2;
+
+/**
+ * Whether an item came from live speech rather than typed text.
+ */
+export const isLive = (item: Interpretation) => item.sentenceIndex === null;
+
+/**
+ * Speed multiplier for the current backlog; 1 when there is nothing to catch up on.
+ */
+export const catchUpRate = (backlog: number, policy: CatchUpPolicy, threshold: number): number => {
+    if (policy !== 'SPEED_UP' || backlog <= threshold) return 1;
+    return Math.min(1 + SPEED_UP_STEP * (backlog - threshold), MAX_CATCH_UP_RATE);
+};
+
+// Fingerspelled words are dropped, and a sign is not repeated right after itself
+const summarize = (items: Interpretation[]): Interpretation | null => {
+    const tokens: TokenMatch[] = [];
+    const segments: SignSegment[] = [];
+    const clips: Interpretation['clips'] = {};
+
+    for (const item of items) {
+        const offset = tokens.length;
+        item.tokens.forEach(token => {
+            tokens.push(token.status === 'FINGERSPELLED' ? { ...token, status: 'DROPPED', signs: [] } : token);
+        });
+        for (const segment of item.segments) {
+            if (segment.fingerspelled || segments[segments.length - 1]?.sign === segment.sign) continue;
+            segments.push({ ...segment, tokenIndex: segment.tokenIndex + offset });
+            clips[segment.sign] = item.clips[segment.sign];
+        }
+    }
+    if (segments.length === 0) return null;
+
+    // Tokens whose signs were all left out are shown as dropped
+    const played = new Set(segments.map(segment => segment.tokenIndex));
+    return {
+        id: items[items.length - 1].id,
+        text: items.map(item => item.text).filter(Boolean).join(' … '),
+        gloss: items.map(item => item.gloss).join(' … '),
+        tokens: tokens.map((token, idx) => played.has(idx) || token.status === 'DROPPED' ? token : { ...token, status: 'DROPPED', signs: [] }),
+        segments,
+        clips,
+        notice: null,
+        sentenceIndex: null
+    };
+};
+
+/**
+ * Applies the catch-up policy to the waiting utterances (the one playing is not part of the queue).
+ * Typed sentences keep their place and are left out of the backlog.
+ * SPEED_UP leaves the queue as it is; see catchUpRate.
+ */
+export const catchUp = (queue: Interpretation[], policy: CatchUpPolicy, threshold: number): CatchUpResult => {
+    const live = queue.filter(isLive);
+    if (live.length <= threshold) return { queue, condensed: 0 };
+
+    if (policy === 'DROP_OLDEST') {
+        const dropped = new Set(live.slice(0, -threshold));
+        return { queue: queue.filter(item => !dropped.has(item)), condensed: dropped.size };
+    }
+    if (policy === 'SUMMARIZE') {
+        // The summary takes the place of the newest utterance it replaces
+        const summary = summarize(live);
+        const newest = live[live.length - 1];
+        return {
+            queue: queue.flatMap(item => !isLive(item) ? [item] : item === newest && summary ? [summary] : []),
+            // The newest utterance lives on as the summary; without one, all of them are dropped
+            condensed: summary ? live.length - 1 : live.length
+        };
+    }
+    return { queue, condensed: 0 };
+};
@@ -0,0 +1,148 @@
+/**
+ * Interpreter Pipeline
+ *
+ * Turns one utterance into a playable sign sequence:
+ * 1. Glossing: converts English to gloss with the vocabulary served by the backend.
+ * 2. Matching: resolves each gloss token (matched, substituted, fingerspelled or dropped).
+ *    Strict mode accepts nothing unless every word has its own sign.
+ *    Curated mode only accepts sentences curated on the backend, using their explicit word mapping.
+ * 3. Fetching: retrieves the sign clips from the backend in a single batch lookup (signs
+ *    prefetched from interim results are reused, see signLookup.ts).
+ *
+ * Failures are returned, not thrown, so one bad utterance does not stop a live session.
+ */
+
+import { convertToGloss } from '../../../../shared/textToGloss';
+import type { SignLanguage } from '../../../../shared/signLanguages';
+import type { TokenMatch } from '../../../../shared/tokenMatcher';
+import type { InterpreterMode } from '../../shared/constants';
+import type { SignLookupResponse, SignMetadata, SupportedSentence } from '../../shared/types';
+import { curatedSentenceMatch, matchCuratedSentence, matchSentence, type SentenceMatch, type SignSegment } from './SentenceMatcher';
+import { lookupSigns } from './signLookup';
+import { loadSupportedSentences } from './supportedSentences';
+import { loadVocabulary, type Vocabulary } from './vocabulary';
+
+/**
+ * An utterance ready to be played.
+ */
+export interface Interpretation {
+    id: number;
+    text: string;
+    gloss: string;
+    tokens: TokenMatch[];
+    segments: SignSegment[];
+    /** Maps each sign to its clip. */
+    clips: Record<string, SignMetadata>;
+    /** Shown while the utterance plays, e.g. letters that could not be fingerspelled. */
+    notice: string | null;
+    /** Position of the sentence in typed text; null for speech. */
+    sentenceIndex: number | null;
+}
+
+export type InterpretationResult =
+    | { ok: true; interpretation: Interpretation }
+    | { ok: false; text: string; error: string };
+
+export interface InterpretOptions {
+    language: SignLanguage;
+    mode: InterpreterMode;
+    /** Changes the wording of errors when clips are missing because the device is offline. */
+    online: boolean;
+}
+
+let nextId = 1;
+
+const failure = (text: string, error: string): InterpretationResult => ({ ok: false, text, error });
+
+/**
+ * Fetches clips for a match. When all-or-nothing is required, any missing clip fails the utterance.
+ */
+const resolveMatch = async (text: string, gloss: string, match: SentenceMatch, allOrNothing: boolean, { language, online }: InterpretOptions): Promise<InterpretationResult> => {
+    let lookup: SignLookupResponse;
+    try {
+        lookup = await lookupSigns(language, match.segments.map(segment => segment.sign));
+    } catch (err) {
+        console.error('Sign metadata error:', err);
+        return failure(text, 'Failed to load sign videos. Please ensure the backend is running.');
+    }
+
+    const clips: Record<string, SignMetadata> = {};
+    lookup.signs.forEach(sign => {
+        clips[sign.word] = sign;
+    });
+    const segments = match.segments.filter(segment => clips[segment.sign]);
+
+    if (lookup.missing.length > 0) {
+        console.warn(`Signs not found for words: ${lookup.missing.join(', ')}. Skipping...`);
+    }
+    if (allOrNothing && lookup.missing.length > 0) {
+        return failure(text, `No sign video available for ${lookup.missing.join(', ')}. Nothing was played.`);
+    }
+    if (segments.length === 0) {
+        return failure(text, online
+            ? 'None of the signs in this sentence are currently available. Please check the browser console (F12) for network errors.'
+            : 'None of the signs in this sentence are saved on this device. Reconnect to load them.');
+    }
+
+    // Tokens whose clips are all missing on the backend are dropped as well
+    const playedTokens = new Set(segments.map(segment => segment.tokenIndex));
+    const tokens = match.tokens.map((token, idx): TokenMatch =>
+        playedTokens.has(idx) ? token : { ...token, status: 'DROPPED', signs: [] }
+    );
+
+    return {
+        ok: true,
+        interpretation: {
+            id: nextId++,
+            text,
+            gloss,
+            tokens,
+            segments,
+            clips,
+            notice: match.missingLetters.length > 0
+                ? `Some letters have no fingerspelling sign yet and were skipped: ${match.missingLetters.join(', ')}`
+                : null,
+            sentenceIndex: null
+        }
+    };
+};
+
+/**
+ * Runs the whole pipeline on a transcript.
+ */
+export const interpretText = async (text: string, options: InterpretOptions): Promise<InterpretationResult> => {
+    const { language, mode } = options;
+
+    let vocabulary: Vocabulary;
+    let sentences: SupportedSentence[] = [];
+    try {
+        vocabulary = await loadVocabulary(language);
+        if (mode === 'CURATED') sentences = await loadSupportedSentences(language);
+    } catch (err) {
+        console.error('Vocabulary load error:', err);
+        return failure(text, 'Failed to load the sign vocabulary. Please ensure the backend is running.');
+    }
+
+    const gloss = convertToGloss(text, { vocabulary: vocabulary.words, phrases: vocabulary.phrases });
+
+    if (mode === 'CURATED') {
+        const sentence = matchCuratedSentence([gloss, text], sentences);
+        return sentence
+            ? resolveMatch(text, sentence.gloss, curatedSentenceMatch(sentence), true, options)
+            : failure(text, 'This sentence is not one of the curated sentences. Pick one from the list below.');
+    }
+
+    const match = matchSentence(gloss, vocabulary, { strict: mode === 'STRICT' });
+    if (!match) {
+        return failure(text, mode === 'STRICT'
+            ? 'One or more words in this sentence are not currently supported by the interpreter library.'
+            : 'This sentence could not be signed or fingerspelled with the current interpreter library.');
+    }
+    return resolveMatch(text, gloss, match, mode === 'STRICT', options);
+};
+
+/**
+ * Interprets a curated sentence directly, with its verified sign sequence.
+ */
+export const interpretCuratedSentence = (sentence: SupportedSentence, options: InterpretOptions): Promise<InterpretationResult> =>
+    resolveMatch('', sentence.gloss, curatedSentenceMatch(sentence), true, options);
@@ -0,0 +1,77 @@
+/**
+ * Sign Lookup
+ *
+ * Batch clip lookup (POST /signs/lookup) with a short-lived cache per word, shared by the
+ * speculative prefetch and the final interpretation: signs fetched while the user was still
+ * speaking are not requested again. Words already being fetched wait for that request; if it
+ * is cancelled, they are fetched again. Missing words are not cached.
+ */
+
+import { apiClient } from '../../app/apiClient';
+import type { SignLanguage } from '../../../../shared/signLanguages';
+import type { SignLookupResponse, SignMetadata } from '../../shared/types';
+
+// Video URLs may be signed and expire, so signs are not kept for long
+const CACHE_TTL_MS = 5 * 60 * 1000;
+
+const signs = new Map<string, { sign: SignMetadata; fetchedAt: number }>();
+const pending = new Map<string, Promise<SignLookupResponse>>();
+
+const keyOf = (language: SignLanguage, word: string) => `${language}:${word}`;
+
+// Same normalization as the backend
+const normalizeGloss = (gloss: string) => gloss.trim().replace(/\s+/g, ' ').toUpperCase();
+
+const cachedSign = (language: SignLanguage, word: string): SignMetadata | null => {
+    const entry = signs.get(keyOf(language, word));
+    return entry && Date.now() - entry.fetchedAt < CACHE_TTL_MS ? entry.sign : null;
+};
+
+const fetchWords = (language: SignLanguage, words: string[], signal?: AbortSignal): Promise<SignLookupResponse> => {
+    const request = apiClient.post<SignLookupResponse>(`/signs/lookup?lang=${language}`, { glosses: words }, { signal })
+        .then(lookup => {
+            const fetchedAt = Date.now();
+            lookup.signs.forEach(sign => signs.set(keyOf(language, normalizeGloss(sign.word)), { sign, fetchedAt }));
+            return lookup;
+        });
+    words.forEach(word => {
+        const key = keyOf(language, word);
+        pending.set(key, request);
+        request.catch(() => { /* Reported to the caller */ }).finally(() => {
+            if (pending.get(key) === request) pending.delete(key);
+        });
+    });
+    return request;
+};
+
+/**
+ * Looks up the clips of a sequence of glosses, in order (repeats included).
+ * The signal cancels this call's own request; see the module comment for shared ones.
+ */
+export const lookupSigns = async (language: SignLanguage, glosses: string[], signal?: AbortSignal): Promise<SignLookupResponse> => {
+    const order = glosses.map(normalizeGloss);
+    const words = Array.from(new Set(order));
+
+    const inFlight = words.filter(word => !cachedSign(language, word) && pending.has(keyOf(language, word)));
+    const toFetch = words.filter(word => !cachedSign(language, word) && !pending.has(keyOf(language, word)));
+
+    const shared = Promise.allSettled(inFlight.map(word => pending.get(keyOf(language, word))!));
+    if (toFetch.length > 0) await fetchWords(language, toFetch, signal);
+    const sharedResults = await shared;
+
+    // Words of shared requests that were cancelled or failed
+    const reportedMissing = new Set(sharedResults.flatMap(result => result.status === 'fulfilled' ? result.value.missing : []));
+    const retry = inFlight.filter(word => !cachedSign(language, word) && !reportedMissing.has(word));
+    if (retry.length > 0) await fetchWords(language, retry, signal);
+
+    const found = new Map<string, SignMetadata>();
+    words.forEach(word => {
+        const sign = cachedSign(language, word);
+        if (sign) found.set(word, sign);
+    });
+    return {
+        order,
+        signs: order.filter(word => found.has(word)).map(word => found.get(word)!),
+        missing: words.filter(word => !found.has(word))
+    };
+};
@@ -0,0 +1,28 @@
+/**
+ * Sign Variant Loader
+ *
+ * Fetches every recording of a word (preferred first, then alternates) so the player
+ * can switch between signers. Each word is loaded once per session; a failed load is
+ * retried on the next call.
+ */
+
+import { apiClient } from '../../app/apiClient';
+import type { SignLanguage } from '../../../../shared/signLanguages';
+import type { SignDetail, SignVariant } from '../../shared/types';
+
+const pending = new Map<string, Promise<SignVariant[]>>();
+
+export const loadSignVariants = (word: string, language: SignLanguage): Promise<SignVariant[]> => {
+    const key = `${language}:${word}`;
+    let variants = pending.get(key);
+    if (!variants) {
+        variants = apiClient.get<SignDetail>(`/signs/${encodeURIComponent(word)}?lang=${language}`)
+            .then(({ alternates, ...preferred }) => [preferred, ...alternates])
+            .catch(err => {
+                pending.delete(key);
+                throw err;
+            });
+        pending.set(key, variants);
+    }
+    return variants;
+};
@@ -0,0 +1,82 @@
+/**
+ * Speculative Prefetch
+ *
+ * Interim speech results are glossed as they arrive, and the clips of their likely signs are
+ * looked up and preloaded while the user is still speaking. Most of them are ready by the time
+ * the final transcript is interpreted, which shortens the wait for the first sign.
+ *
+ * The guess always uses open matching, whatever the interpreter mode: it only warms the caches.
+ * When the final transcript differs from the last draft, lookups still in flight are cancelled,
+ * and preloads the final interpretation does not use are dropped, unless something else
+ * (the sentence playing or a queued one) asked for the same clip.
+ */
+
+import { convertToGloss } from '../../../../shared/textToGloss';
+import type { SignLanguage } from '../../../../shared/signLanguages';
+import { videoCache } from './CacheManager';
+import { matchSentence } from './SentenceMatcher';
+import { lookupSigns } from './signLookup';
+import { loadVocabulary } from './vocabulary';
+
+interface Speculation {
+    /** Last interim transcript of the utterance. */
+    text: string;
+    controller: AbortController;
+    /** Clips preloaded for the utterance. */
+    urls: Set<string>;
+}
+
+let speculation: Speculation | null = null;
+
+const drop = (settled: Speculation, used: string[] = []) => {
+    videoCache.cancel(Array.from(settled.urls).filter(url => !used.includes(url)));
+};
+
+export const speculativePrefetch = {
+    /**
+     * Glosses an interim transcript and starts prefetching its signs.
+     * Resolves with the draft gloss, to be shown while the user speaks.
+     */
+    draft: async (text: string, language: SignLanguage): Promise<string> => {
+        if (!speculation) speculation = { text, controller: new AbortController(), urls: new Set() };
+        speculation.text = text;
+        const current = speculation;
+
+        const vocabulary = await loadVocabulary(language);
+        const gloss = convertToGloss(text, { vocabulary: vocabulary.words, phrases: vocabulary.phrases });
+        const match = matchSentence(gloss, vocabulary);
+        if (match && !current.controller.signal.aborted) {
+            lookupSigns(language, match.segments.map(segment => segment.sign), current.controller.signal)
+                .then(lookup => {
+                    if (current.controller.signal.aborted) return;
+                    const urls = lookup.signs.map(sign => sign.videoUrl).filter(url => !current.urls.has(url));
+                    urls.forEach(url => current.urls.add(url));
+                    videoCache.preload(urls, { speculative: true });
+                })
+                .catch(() => { /* Only a guess: the final transcript is looked up again */ });
+        }
+        return gloss;
+    },
+
+    /**
+     * Ends the speculation on the final transcript. Returns a callback to report the clips the
+     * final interpretation uses; the other preloads are dropped.
+     */
+    settle: (finalText: string): ((usedUrls: string[]) => void) => {
+        const settled = speculation;
+        speculation = null;
+        if (!settled) return () => { /* Nothing was prefetched */ };
+        if (settled.text !== finalText) settled.controller.abort();
+        return usedUrls => drop(settled, usedUrls);
+    },
+
+    /**
+     * Cancels everything, e.g. when listening stops or the language changes.
+     */
+    reset: (): void => {
+        if (!speculation) return;
+        speculation.controller.abort();
+        drop(speculation);
+        speculation = null;
+    }
+};
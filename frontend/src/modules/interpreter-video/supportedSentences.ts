@@ -0,0 +1,24 @@
+/**
+ * Curated Sentence Loader
+ *
+ * Fetches the admin-curated sentences of a sign language, used by curated mode and the demo panel.
+ * Each list is loaded once per session; a failed load is retried on the next call.
+ */
+
+import { apiClient } from '../../app/apiClient';
+import type { SignLanguage } from '../../../../shared/signLanguages';
+import type { SupportedSentence } from '../../shared/types';
+
+const pending = new Map<SignLanguage, Promise<SupportedSentence[]>>();
+
+export const loadSupportedSentences = (language: SignLanguage): Promise<SupportedSentence[]> => {
+    let sentences = pending.get(language);
+    if (!sentences) {
+        sentences = apiClient.get<SupportedSentence[]>(`/supported-sentences?lang=${language}`).catch(err => {
+            pending.delete(language);
+            throw err;
+        });
+        pending.set(language, sentences);
+    }
+    return sentences;
+};
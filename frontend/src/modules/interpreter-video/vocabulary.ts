@@ -0,0 +1,115 @@
+/**
+ * Sign Vocabulary Loader
+ *
+ * The backend sign store is the single source of truth for which words can be signed.
+ * Each sign language has its own vocabulary, fetched from GET /vocabulary?lang=, cached in
+ * localStorage and revalidated with its ETag, so newly imported signs are picked up without a rebuild.
+ */
+
+import { extractPhrases } from '../../../../shared/phraseTokenizer';
+import type { SignLanguage } from '../../../../shared/signLanguages';
+import { API_BASE_URL } from '../../shared/constants';
+import type { VocabularyResponse } from '../../shared/types';
+
+export interface Vocabulary {
+    version: string;
+    words: Set<string>;
+    /** Multi-word entries of the vocabulary, used by the phrase tokenizer. */
+    phrases: Set<string>;
+}
+
+const STORAGE_KEY = 'isl.vocabulary';
+// How long a loaded vocabulary is trusted before it is revalidated against the backend
+const REVALIDATE_AFTER_MS = 5 * 60 * 1000;
+
+interface LoadState {
+    current: Vocabulary | null;
+    loadedAt: number;
+    pending: Promise<Vocabulary> | null;
+}
+
+const states = new Map<SignLanguage, LoadState>();
+
+const stateOf = (language: SignLanguage): LoadState => {
+    if (!states.has(language)) states.set(language, { current: null, loadedAt: 0, pending: null });
+    return states.get(language)!;
+};
+
+const storageKey = (language: SignLanguage) => `${STORAGE_KEY}.${language}`;
+
+const toVocabulary = (data: VocabularyResponse): Vocabulary => {
+    const words = new Set(data.words);
+    return { version: data.version, words, phrases: extractPhrases(words) };
+};
+
+const readCache = (language: SignLanguage): VocabularyResponse | null => {
+    try {
+        const raw = localStorage.getItem(storageKey(language));
+        return raw ? JSON.parse(raw) as VocabularyResponse : null;
+    } catch {
+        return null;
+    }
+};
+
+const writeCache = (language: SignLanguage, data: VocabularyResponse) => {
+    try {
+        localStorage.setItem(storageKey(language), JSON.stringify(data));
+    } catch (err) {
+        console.warn('⚠️ [Vocabulary] Could not cache vocabulary:', err);
+    }
+};
+
+const fetchVocabulary = async (language: SignLanguage): Promise<Vocabulary> => {
+    const { current } = stateOf(language);
+    const cached = readCache(language);
+    const headers: Record<string, string> = {};
+    if (cached) headers['If-None-Match'] = `"${cached.version}"`;
+
+    try {
+        const response = await fetch(`${API_BASE_URL}/vocabulary?lang=${language}`, { headers });
+
+        if (response.status === 304 && cached) {
+            console.log(`✅ [Vocabulary] Cached ${language} vocabulary ${cached.version} is up to date`);
+            return current && current.version === cached.version ? current : toVocabulary(cached);
+        }
+        if (!response.ok) {
+            throw new Error(`API error: ${response.status}`);
+        }
+
+        const data = await response.json() as VocabularyResponse;
+        writeCache(language, data);
+        console.log(`✅ [Vocabulary] Loaded ${data.count} ${language} signs (version ${data.version})`);
+        return toVocabulary(data);
+    } catch (err) {
+        // Keep working with the last known vocabulary while the backend is unreachable
+        if (current) return current;
+        if (cached) {
+            console.warn('⚠️ [Vocabulary] Backend unreachable, using cached vocabulary:', err);
+            return toVocabulary(cached);
+        }
+        throw err;
+    }
+};
+
+/**
+ * Returns the vocabulary of a sign language, loading it on first use.
+ * Concurrent callers share one request; a stale vocabulary is revalidated with its ETag.
+ */
+export const loadVocabulary = (language: SignLanguage): Promise<Vocabulary> => {
+    const state = stateOf(language);
+    if (state.current && Date.now() - state.loadedAt < REVALIDATE_AFTER_MS) {
+        return Promise.resolve(state.current);
+    }
+    if (!state.pending) {
+        state.pending = fetchVocabulary(language)
+            .then(vocabulary => {
+                state.current = vocabulary;
+                state.loadedAt = Date.now();
+                return vocabulary;
+            })
+            .finally(() => {
+                state.pending = null;
+            });
+    }
+    return state.pending;
+};
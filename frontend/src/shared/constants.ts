@@ -1,2 +1,33 @@
+import { DEFAULT_SIGN_LANGUAGE, isSignLanguage, type SignLanguage } from '../../../shared/signLanguages';
+
 export const APP_NAME = 'ISL Learning Platform';
 export const API_BASE_URL = 'http://127.0.0.1:3000/api';
+
+export type InterpreterMode = 'OPEN' | 'STRICT' | 'CURATED';
+
+const INTERPRETER_MODES: InterpreterMode[] = ['OPEN', 'STRICT', 'CURATED'];
+
+// Booth and exhibition builds set VITE_INTERPRETER_MODE=CURATED to only play curated sentences
+export const DEFAULT_INTERPRETER_MODE: InterpreterMode = INTERPRETER_MODES.find(mode => mode === import.meta.env.VITE_INTERPRETER_MODE) || 'OPEN';
+
+// Sign language shown first; VITE_SIGN_LANGUAGE=ISL once an ISL dataset is loaded
+export const INITIAL_SIGN_LANGUAGE: SignLanguage = isSignLanguage(import.meta.env.VITE_SIGN_LANGUAGE) ? import.meta.env.VITE_SIGN_LANGUAGE : DEFAULT_SIGN_LANGUAGE;
+
+// Crossfade between consecutive signs, in ms; VITE_SIGN_CROSSFADE_MS=0 cuts straight to the next clip
+const crossfadeMs = Number(import.meta.env.VITE_SIGN_CROSSFADE_MS);
+export const SIGN_CROSSFADE_MS = import.meta.env.VITE_SIGN_CROSSFADE_MS && crossfadeMs >= 0 ? crossfadeMs : 150;
+
+// Storage for signs kept on the device for offline use, in MB; least recently used signs are evicted beyond it
+const offlineCacheMb = Number(import.meta.env.VITE_OFFLINE_CACHE_MB);
+export const OFFLINE_CACHE_BUDGET_MB = offlineCacheMb > 0 ? offlineCacheMb : 500;
+
+export type CatchUpPolicy = 'SPEED_UP' | 'DROP_OLDEST' | 'SUMMARIZE';
+
+const CATCH_UP_POLICIES: CatchUpPolicy[] = ['SPEED_UP', 'DROP_OLDEST', 'SUMMARIZE'];
+
+// How live interpretation keeps up when speech outpaces the signing; VITE_CATCH_UP_POLICY=DROP_OLDEST or SUMMARIZE
+export const DEFAULT_CATCH_UP_POLICY: CatchUpPolicy = CATCH_UP_POLICIES.find(policy => policy === import.meta.env.VITE_CATCH_UP_POLICY) || 'SPEED_UP';
+
+// Sentences allowed to wait before the catch-up policy kicks in
+const catchUpThreshold = Number(import.meta.env.VITE_CATCH_UP_THRESHOLD);
+export const CATCH_UP_THRESHOLD = Number.isInteger(catchUpThreshold) && catchUpThreshold > 0 ? catchUpThreshold : 2;
@@ -17,6 +17,15 @@ declare global {
 
 const SpeechRecognition = window.SpeechRecognition || window.webkitSpeechRecognition;
 
+export interface SpeechHandlers {
+    onResult: (text: string) => void;
+    /** Transcript of the phrase still being spoken; refined until its final result arrives. */
+    onInterim?: (text: string) => void;
+    onError: (err: string) => void;
+    /** Fires after stop(), errors, and when the browser ends recognition on its own. */
+    onEnd?: () => void;
+}
+
 /**
  * Normalizes text per project requirements:
  * - lowercase
@@ -34,7 +43,7 @@ export const normalizeText = (text: string): string => {
 export const speechService = {
     recognition: SpeechRecognition ? new SpeechRecognition() : null,
 
-    init: (onResult: (text: string) => void, onError: (err: string) => void) => {
+    init: ({ onResult, onInterim, onError, onEnd }: SpeechHandlers) => {
         if (!speechService.recognition) {
             onError('Speech Recognition not supported in this browser.');
             return;
@@ -46,20 +55,31 @@ export const speechService = {
 
         speechService.recognition.onresult = (event: SpeechRecognitionEvent) => {
             let finalTranscript = '';
+            let interimTranscript = '';
             for (let i = event.resultIndex; i < event.results.length; ++i) {
                 if (event.results[i].isFinal) {
                     finalTranscript += event.results[i][0].transcript;
+                } else {
+                    interimTranscript += event.results[i][0].transcript;
                 }
             }
 
             if (finalTranscript) {
                 onResult(normalizeText(finalTranscript));
             }
+            // After the final result: the next phrase has already started
+            if (interimTranscript && onInterim) {
+                onInterim(normalizeText(interimTranscript));
+            }
         };
 
         speechService.recognition.onerror = (event: SpeechRecognitionErrorEvent) => {
             onError(event.error);
         };
+
+        speechService.recognition.onend = () => {
+            onEnd?.();
+        };
     },
 
     start: () => {
@@ -1,3 +1,5 @@
+import type { SignLanguage, SignLanguageInfo } from '../../../shared/signLanguages';
+
 export interface User {
     id: string;
     name: string;
@@ -8,3 +10,56 @@ export interface GlossToken {
     word: string;
     timestamp?: number;
 }
+
+/** One recording of a sign. */
+export interface SignVariant {
+    videoUrl: string;
+    signerId: number | null;
+    subset: string | null;
+    source: string | null;
+    durationMs: number | null;
+    /** Signing segment inside the clip; null plays the whole clip. */
+    startMs: number | null;
+    endMs: number | null;
+    width: number | null;
+    height: number | null;
+    fps: number | null;
+}
+
+/** A sign with its preferred recording. */
+export interface SignMetadata extends SignVariant {
+    language: SignLanguage;
+    word: string;
+    dominantHand: string;
+}
+
+/** GET /api/signs/:word also returns the other recordings of the sign. */
+export interface SignDetail extends SignMetadata {
+    alternates: SignVariant[];
+}
+
+export interface SignLookupResponse {
+    order: string[];
+    signs: SignMetadata[];
+    missing: string[];
+}
+
+export interface VocabularyResponse {
+    language: SignLanguage;
+    version: string;
+    count: number;
+    words: string[];
+}
+
+export interface SupportedSentence {
+    id: string;
+    language: SignLanguage;
+    gloss: string;
+    words: string[];
+    createdAt: string;
+}
+
+/** GET /api/languages */
+export interface SignLanguageSummary extends SignLanguageInfo {
+    signCount: number;
+}
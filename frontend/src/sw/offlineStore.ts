@@ -0,0 +1,112 @@
+/**
+ * Offline Store
+ *
+ * IndexedDB side of the offline cache, used by the service worker:
+ * - entries: every response kept in Cache Storage, with its size and last use, for the byte budget.
+ * - signs: sign metadata from batch lookups, so sentences can still be resolved offline.
+ */
+
+export interface CacheEntry {
+    /** Cache key: the URL without its query string (signed video URLs change every window). */
+    url: string;
+    cacheName: string;
+    bytes: number;
+    lastUsed: number;
+}
+
+export interface StoredSign {
+    /** `${language}:${word}` */
+    key: string;
+    /** Sign metadata as returned by the backend. */
+    sign: { word: string; videoUrl: string };
+    storedAt: number;
+}
+
+export interface CacheUsage {
+    bytes: number;
+    budgetBytes: number;
+    entries: number;
+}
+
+const DB_NAME = 'isl-offline';
+const DB_VERSION = 1;
+
+let database: Promise<IDBDatabase> | null = null;
+
+const open = (): Promise<IDBDatabase> => {
+    if (!database) {
+        database = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                const entries = db.createObjectStore('entries', { keyPath: 'url' });
+                entries.createIndex('lastUsed', 'lastUsed');
+                db.createObjectStore('signs', { keyPath: 'key' });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                database = null;
+                reject(request.error);
+            };
+        });
+    }
+    return database;
+};
+
+const done = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const committed = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+
+export const signKey = (language: string, word: string) => `${language}:${word.toUpperCase()}`;
+
+export const offlineStore = {
+    putEntry: async (entry: CacheEntry): Promise<void> => {
+        const transaction = (await open()).transaction('entries', 'readwrite');
+        transaction.objectStore('entries').put(entry);
+        await committed(transaction);
+    },
+
+    /** Marks an entry as just used, so it is evicted last. */
+    touchEntry: async (url: string): Promise<void> => {
+        const transaction = (await open()).transaction('entries', 'readwrite');
+        const entries = transaction.objectStore('entries');
+        const entry = await done(entries.get(url) as IDBRequest<CacheEntry | undefined>);
+        if (entry) entries.put({ ...entry, lastUsed: Date.now() });
+        await committed(transaction);
+    },
+
+    deleteEntry: async (url: string): Promise<void> => {
+        const transaction = (await open()).transaction('entries', 'readwrite');
+        transaction.objectStore('entries').delete(url);
+        await committed(transaction);
+    },
+
+    /** All entries, least recently used first. */
+    entriesByRecency: async (): Promise<CacheEntry[]> => {
+        const transaction = (await open()).transaction('entries', 'readonly');
+        return done(transaction.objectStore('entries').index('lastUsed').getAll() as IDBRequest<CacheEntry[]>);
+    },
+
+    putSigns: async (signs: StoredSign[]): Promise<void> => {
+        const transaction = (await open()).transaction('signs', 'readwrite');
+        const store = transaction.objectStore('signs');
+        signs.forEach(sign => store.put(sign));
+        await committed(transaction);
+    },
+
+    getSigns: async (keys: string[]): Promise<Map<string, StoredSign>> => {
+        const transaction = (await open()).transaction('signs', 'readonly');
+        const store = transaction.objectStore('signs');
+        const found = await Promise.all(keys.map(key => done(store.get(key) as IDBRequest<StoredSign | undefined>)));
+        return new Map(found.filter((sign): sign is StoredSign => !!sign).map(sign => [sign.key, sign]));
+    }
+};
@@ -0,0 +1,298 @@
+/**
+ * Offline Service Worker
+ *
+ * Keeps the interpreter usable with poor or no connectivity:
+ * - App shell: precached on install, served network-first for navigations.
+ * - Sign videos: downloaded whole, kept in Cache Storage and served from there (range requests included).
+ * - API reads: network-first, falling back to the last response.
+ * - Batch sign lookups: the returned signs are remembered; offline, the lookup is answered with
+ *   the remembered signs whose video is cached, so cached vocabulary can still be interpreted.
+ *
+ * Videos and API responses share a byte budget; the least recently used entries are evicted first.
+ * The API base URL and the budget come from the registration URL (see app/offline.ts).
+ */
+
+import { offlineStore, signKey, type CacheUsage, type StoredSign } from './offlineStore';
+
+declare const self: ServiceWorkerGlobalScope;
+
+const SHELL_CACHE = 'isl-shell-v1';
+const VIDEO_CACHE = 'isl-videos';
+const API_CACHE = 'isl-api';
+const CACHE_NAMES = [SHELL_CACHE, VIDEO_CACHE, API_CACHE];
+
+const DEFAULT_BUDGET_MB = 500;
+
+const params = new URL(self.location.href).searchParams;
+const API_BASE_URL = params.get('api') ?? '';
+const BUDGET_BYTES = (Number(params.get('budgetMb')) || DEFAULT_BUDGET_MB) * 1024 * 1024;
+
+// Signed video URLs carry a new signature every window; the file is the same
+const cacheKey = (url: string) => {
+    const parsed = new URL(url, self.location.href);
+    return `${parsed.origin}${parsed.pathname}`;
+};
+
+const isApiRequest = (url: string) => API_BASE_URL !== '' && url.startsWith(API_BASE_URL);
+
+// --- Byte budget ---
+
+// Evictions run one at a time, so concurrent downloads do not count the same entries twice
+let eviction: Promise<void> = Promise.resolve();
+
+const enforceBudget = (): Promise<void> => {
+    eviction = eviction.then(async () => {
+        const entries = await offlineStore.entriesByRecency();
+        let total = entries.reduce((sum, entry) => sum + entry.bytes, 0);
+        for (const entry of entries) {
+            if (total <= BUDGET_BYTES) break;
+            const cache = await caches.open(entry.cacheName);
+            await cache.delete(entry.url);
+            await offlineStore.deleteEntry(entry.url);
+            total -= entry.bytes;
+            console.log(`🗑️ [Offline] Evicted ${entry.url} (${entry.bytes} bytes)`);
+        }
+    }).catch(err => console.warn('⚠️ [Offline] Eviction failed:', err));
+    return eviction;
+};
+
+const store = async (cacheName: string, key: string, body: Blob, headers: HeadersInit): Promise<boolean> => {
+    // A single response larger than the whole budget would evict everything else
+    if (body.size > BUDGET_BYTES) return false;
+    const cache = await caches.open(cacheName);
+    await cache.put(key, new Response(body, { headers }));
+    await offlineStore.putEntry({ url: key, cacheName, bytes: body.size, lastUsed: Date.now() });
+    await enforceBudget();
+    return true;
+};
+
+const cached = async (cacheName: string, key: string): Promise<Response | undefined> => {
+    const cache = await caches.open(cacheName);
+    const response = await cache.match(key);
+    if (response) offlineStore.touchEntry(key).catch(() => { /* Recency is best effort */ });
+    return response;
+};
+
+const usage = async (): Promise<CacheUsage> => {
+    const entries = await offlineStore.entriesByRecency();
+    return {
+        bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0),
+        budgetBytes: BUDGET_BYTES,
+        entries: entries.length
+    };
+};
+
+// --- Videos ---
+
+// The preloader and the player usually ask for the same clip at once; download it once
+const downloads = new Map<string, Promise<boolean>>();
+
+const download = (url: string, key: string): Promise<boolean> => {
+    let pending = downloads.get(key);
+    if (!pending) {
+        pending = (async () => {
+            try {
+                // CORS, so the size is known; opaque responses cannot be budgeted and are not kept
+                const response = await fetch(url, { mode: 'cors', credentials: 'omit' });
+                if (response.status !== 200) return false;
+                const body = await response.blob();
+                return await store(VIDEO_CACHE, key, body, { 'Content-Type': response.headers.get('Content-Type') || 'video/mp4' });
+            } catch {
+                return false;
+            }
+        })().finally(() => downloads.delete(key));
+        downloads.set(key, pending);
+    }
+    return pending;
+};
+
+// Video elements ask for byte ranges; a cached clip is whole, so the range is cut from it
+const withRange = async (response: Response, range: string | null): Promise<Response> => {
+    if (!range) return response;
+
+    const body = await response.blob();
+    const size = body.size;
+    const match = /^bytes=(\d*)-(\d*)$/.exec(range.trim());
+    let start = -1;
+    let end = size - 1;
+    if (match && match[1]) {
+        start = Number(match[1]);
+        if (match[2]) end = Math.min(Number(match[2]), size - 1);
+    } else if (match && match[2]) {
+        start = Math.max(size - Number(match[2]), 0);
+    }
+    if (start < 0 || start >= size || start > end) {
+        return new Response(null, { status: 416, headers: { 'Content-Range': `bytes */${size}` } });
+    }
+
+    return new Response(body.slice(start, end + 1), {
+        status: 206,
+        headers: {
+            'Content-Type': response.headers.get('Content-Type') || 'video/mp4',
+            'Content-Length': String(end - start + 1),
+            'Content-Range': `bytes ${start}-${end}/${size}`,
+            'Accept-Ranges': 'bytes'
+        }
+    });
+};
+
+const serveVideo = async (request: Request): Promise<Response> => {
+    const key = cacheKey(request.url);
+    let response = await cached(VIDEO_CACHE, key);
+    if (!response && await download(request.url, key)) {
+        response = await cached(VIDEO_CACHE, key);
+    }
+    // Not cacheable (no CORS, over budget): the browser loads it as usual
+    if (!response) return fetch(request);
+    return withRange(response, request.headers.get('Range'));
+};
+
+// --- API ---
+
+const networkFirst = async (event: FetchEvent): Promise<Response> => {
+    const { request } = event;
+    try {
+        const response = await fetch(request);
+        if (response.status === 200) {
+            const copy = response.clone();
+            event.waitUntil(copy.blob()
+                .then(body => store(API_CACHE, request.url, body, { 'Content-Type': copy.headers.get('Content-Type') || 'application/json' }))
+                .catch(err => console.warn('⚠️ [Offline] Could not cache API response:', err)));
+        }
+        return response;
+    } catch (err) {
+        const fallback = await cached(API_CACHE, request.url);
+        if (fallback) {
+            console.log(`📴 [Offline] Serving cached ${request.url}`);
+            return fallback;
+        }
+        throw err;
+    }
+};
+
+const normalizeGloss = (gloss: string) => gloss.trim().replace(/\s+/g, ' ').toUpperCase();
+
+const rememberSigns = async (language: string, response: Response) => {
+    const { signs } = await response.json() as { signs: StoredSign['sign'][] };
+    const storedAt = Date.now();
+    await offlineStore.putSigns(signs.map(sign => ({ key: signKey(language, sign.word), sign, storedAt })));
+};
+
+// Same shape as POST /signs/lookup; words whose video is not cached are reported missing
+const lookupOffline = async (language: string, glosses: string[]): Promise<Response> => {
+    const order = glosses.map(normalizeGloss);
+    const words = Array.from(new Set(order));
+    const stored = await offlineStore.getSigns(words.map(word => signKey(language, word)));
+    const videos = await caches.open(VIDEO_CACHE);
+
+    const available = new Map<string, StoredSign['sign']>();
+    for (const word of words) {
+        const sign = stored.get(signKey(language, word))?.sign;
+        if (sign && await videos.match(cacheKey(sign.videoUrl))) available.set(word, sign);
+    }
+
+    const signs = order.filter(word => available.has(word)).map(word => available.get(word));
+    const missing = words.filter(word => !available.has(word));
+    console.log(`📴 [Offline] Lookup answered from cache: ${available.size} of ${words.length} signs`);
+    return Response.json({ order, signs, missing });
+};
+
+const lookupSigns = async (event: FetchEvent): Promise<Response> => {
+    const { request } = event;
+    const language = new URL(request.url).searchParams.get('lang') ?? '';
+    const { glosses } = await request.clone().json() as { glosses: string[] };
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            event.waitUntil(rememberSigns(language, response.clone())
+                .catch(err => console.warn('⚠️ [Offline] Could not store signs:', err)));
+        }
+        return response;
+    } catch {
+        return lookupOffline(language, glosses);
+    }
+};
+
+// --- App shell ---
+
+// The built index.html references the hashed bundles; cache them with it
+const precacheShell = async () => {
+    const cache = await caches.open(SHELL_CACHE);
+    const response = await fetch('/', { cache: 'no-cache' });
+    const html = await response.clone().text();
+    const assets = Array.from(html.matchAll(/(?:src|href)="(\/[^"]+)"/g), match => match[1]);
+    await cache.put('/', response);
+    await cache.addAll(Array.from(new Set(assets)));
+};
+
+const serveShell = async (request: Request): Promise<Response> => {
+    try {
+        const response = await fetch(request);
+        if (response.ok) {
+            const cache = await caches.open(SHELL_CACHE);
+            await cache.put('/', response.clone());
+        }
+        return response;
+    } catch (err) {
+        // Every route is rendered by the single page
+        const shell = await caches.match('/', { cacheName: SHELL_CACHE });
+        if (shell) return shell;
+        throw err;
+    }
+};
+
+// Hashed bundles never change; other files are refreshed in the background
+const staleWhileRevalidate = async (event: FetchEvent): Promise<Response> => {
+    const cache = await caches.open(SHELL_CACHE);
+    const match = await cache.match(event.request);
+    const refresh = fetch(event.request).then(async response => {
+        if (response.ok) await cache.put(event.request, response.clone());
+        return response;
+    });
+    if (match) {
+        event.waitUntil(refresh.catch(() => { /* Offline: keep the cached copy */ }));
+        return match;
+    }
+    return refresh;
+};
+
+// --- Lifecycle ---
+
+self.addEventListener('install', event => {
+    event.waitUntil(precacheShell().then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+    event.waitUntil((async () => {
+        const names = await caches.keys();
+        await Promise.all(names.filter(name => !CACHE_NAMES.includes(name)).map(name => caches.delete(name)));
+        // The budget may have been lowered since the last version
+        await enforceBudget();
+        await self.clients.claim();
+    })());
+});
+
+self.addEventListener('fetch', event => {
+    const { request } = event;
+    const url = new URL(request.url);
+
+    if (request.method === 'POST' && isApiRequest(request.url) && url.pathname.endsWith('/signs/lookup')) {
+        event.respondWith(lookupSigns(event));
+    } else if (request.method !== 'GET') {
+        return;
+    } else if (request.destination === 'video') {
+        event.respondWith(serveVideo(request));
+    } else if (isApiRequest(request.url)) {
+        event.respondWith(networkFirst(event));
+    } else if (request.mode === 'navigate') {
+        event.respondWith(serveShell(request));
+    } else if (url.origin === self.location.origin) {
+        event.respondWith(staleWhileRevalidate(event));
+    }
+});
+
+self.addEventListener('message', event => {
+    if (event.data?.type === 'GET_USAGE') {
+        event.waitUntil(usage().then(result => event.ports[0]?.postMessage(result)));
+    }
+});
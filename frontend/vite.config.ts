@@ -1,3 +1,4 @@
+import { fileURLToPath } from 'node:url'
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import tailwindcss from '@tailwindcss/vite'
@@ -8,4 +9,22 @@ export default defineConfig({
     react(),
     tailwindcss(),
   ],
+  build: {
+    rollupOptions: {
+      input: {
+        main: fileURLToPath(new URL('./index.html', import.meta.url)),
+        // Emitted at the root, so the worker's scope is the whole app
+        sw: fileURLToPath(new URL('./src/sw/serviceWorker.ts', import.meta.url)),
+      },
+      output: {
+        entryFileNames: chunk => chunk.name === 'sw' ? 'sw.js' : 'assets/[name]-[hash].js',
+      },
+    },
+  },
+  server: {
+    fs: {
+      // Gloss logic lives in the repo-level shared/ folder, used by the backend too
+      allow: ['..'],
+    },
+  },
 })
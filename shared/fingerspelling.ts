@@ -0,0 +1,30 @@
+/**
+ * Fingerspelling Fallback
+ *
+ * Expands a word that has no sign of its own (names, places, rare words)
+ * into a letter-by-letter sequence using the single-letter signs of the vocabulary.
+ * Letters without a sign are skipped and reported back to the caller.
+ */
+
+export interface FingerspellResult {
+    letters: string[];
+    missingLetters: string[];
+}
+
+export const fingerspell = (word: string, vocabulary: ReadonlySet<string>): FingerspellResult => {
+    const letters: string[] = [];
+    const missingLetters: string[] = [];
+
+    for (const char of word.toUpperCase()) {
+        // Only A-Z can be fingerspelled; digits and symbols are ignored
+        if (char < 'A' || char > 'Z') continue;
+
+        if (vocabulary.has(char)) {
+            letters.push(char);
+        } else if (!missingLetters.includes(char)) {
+            missingLetters.push(char);
+        }
+    }
+
+    return { letters, missingLetters };
+};
@@ -0,0 +1,334 @@
+/**
+ * ISL Grammar Rule Engine
+ *
+ * English -> ISL gloss conversion is an ordered list of named rules.
+ * Each rule takes the current (lowercase) token list and returns a new one;
+ * the engine records a trace entry for every rule that changed something,
+ * so translations can be tuned and debugged rule by rule.
+ */
+
+import { lemmatize } from './lemmatizer';
+import { tokenizePhrases } from './phraseTokenizer';
+
+export interface RuleContext {
+    /** Uppercase sign vocabulary. */
+    vocabulary: ReadonlySet<string>;
+    /** Multi-word signs of the vocabulary. */
+    phrases: ReadonlySet<string>;
+    /** Lemmas recognized as verbs by earlier rules (filled by LEMMATIZE). */
+    verbs: Set<string>;
+}
+
+export interface GlossRule {
+    name: string;
+    description: string;
+    apply: (tokens: string[], context: RuleContext) => string[];
+}
+
+export interface RuleTraceEntry {
+    rule: string;
+    before: string[];
+    after: string[];
+}
+
+const ARTICLES = new Set(['a', 'an', 'the']);
+const HELPING_VERBS = new Set(['am', 'is', 'are', 'was', 'were']);
+const NEGATIONS = new Set(['not', 'never']);
+
+// Base forms of common verbs to help with SOV transformation
+// (inflected forms are recognized by the lemmatizer)
+const COMMON_VERBS = new Set([
+    'go', 'eat', 'drink', 'play', 'see', 'come', 'want', 'like', 'do',
+    'help', 'work', 'need', 'have', 'make', 'know', 'learn', 'study',
+    'read', 'write', 'buy', 'give', 'take', 'meet', 'love', 'visit'
+]);
+
+// Question words that typically move to the end in ISL
+const WH_QUESTIONS = new Set(['what', 'where', 'when', 'why', 'who']);
+
+// Time expressions open the sentence in ISL ("I went yesterday" -> "YESTERDAY I GO")
+const TIME_WORDS = new Set([
+    'yesterday', 'today', 'tomorrow', 'tonight', 'now', 'later', 'soon',
+    'morning', 'afternoon', 'evening', 'weekend',
+    'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday', 'sunday',
+    'last week', 'last year', 'all day', 'every monday', 'every tuesday', 'from now on'
+]);
+const TIME_MODIFIERS = new Set(['last', 'next', 'this', 'every']);
+const TIME_UNITS = new Set(['day', 'night', 'week', 'month', 'year', 'morning', 'evening', 'weekend']);
+
+// Adjectives follow the noun they describe in ISL ("red car" -> "CAR RED")
+const ADJECTIVES = new Set([
+    'red', 'blue', 'green', 'yellow', 'black', 'white', 'brown', 'pink', 'purple', 'orange', 'grey', 'gray',
+    'big', 'small', 'tall', 'short', 'long', 'large', 'little', 'fat', 'thin',
+    'good', 'bad', 'new', 'old', 'young', 'happy', 'sad', 'hot', 'cold', 'beautiful', 'pretty', 'ugly',
+    'nice', 'cute', 'fast', 'slow', 'easy', 'hard', 'difficult', 'expensive', 'cheap', 'favorite',
+    'important', 'funny', 'smart', 'strong', 'weak', 'rich', 'poor', 'hungry', 'thirsty', 'clean', 'dirty'
+]);
+const INTENSIFIERS = new Set(['very', 'really', 'so']);
+
+// Words that can never be the noun an adjective attaches to
+const NON_NOUNS = new Set([
+    ...ARTICLES, ...HELPING_VERBS, ...NEGATIONS, ...WH_QUESTIONS,
+    'i', 'me', 'you', 'he', 'him', 'she', 'her', 'it', 'we', 'us', 'they', 'them',
+    // Conjunctions and prepositions; a comparative is followed by "than", never by its noun ("happier than me")
+    'and', 'or', 'but', 'so', 'because', 'if', 'than', 'as', 'then',
+    'to', 'in', 'on', 'at', 'for', 'with', 'from', 'of', 'about', 'into', 'onto', 'over', 'under',
+    'after', 'before', 'by', 'near', 'through', 'without', 'between', 'behind', 'up', 'down', 'out', 'off'
+]);
+
+// Reflexive and object pronouns collapse to the form that is pointed (indexed) in ISL
+const PRONOUN_FORMS: Record<string, string> = {
+    'myself': 'me',
+    'yourself': 'you',
+    'yourselves': 'you',
+    'himself': 'him',
+    'herself': 'her',
+    'ourselves': 'we',
+    'us': 'we',
+    'themselves': 'them'
+};
+// Dummy subjects carry no meaning ("it is raining", "there is a dog")
+const DUMMY_SUBJECTS = new Set(['it', 'there']);
+
+const CONTRACTIONS: Record<string, string[]> = {
+    "i'm": ['i', 'am'],
+    "you're": ['you', 'are'],
+    "we're": ['we', 'are'],
+    "they're": ['they', 'are'],
+    "it's": ['it', 'is'],
+    "that's": ['that', 'is'],
+    "what's": ['what', 'is'],
+    "where's": ['where', 'is'],
+    "i've": ['i', 'have'],
+    "i'll": ['i', 'will'],
+    "let's": ['let', 'we'],
+    "don't": ['do', 'not'],
+    "doesn't": ['do', 'not'],
+    "didn't": ['do', 'not'],
+    "isn't": ['is', 'not'],
+    "aren't": ['are', 'not'],
+    "wasn't": ['was', 'not'],
+    "weren't": ['were', 'not'],
+    "can't": ['cannot'],
+    "cannot": ['cannot'],
+    "won't": ['will', 'not'],
+    "haven't": ['have', 'not'],
+    "hasn't": ['have', 'not']
+};
+
+// Map numeric digits to their word equivalent for dataset compatibility
+const NUMBER_MAP: Record<string, string> = {
+    '0': 'zero',
+    '1': 'one',
+    '2': 'two',
+    '3': 'three',
+    '4': 'four',
+    '5': 'five',
+    '6': 'six',
+    '7': 'seven',
+    '8': 'eight',
+    '9': 'nine',
+    '10': 'ten'
+};
+
+// Phrasal verbs ("give up", "look for") count as verbs through their first word
+const isVerb = (token: string, context: RuleContext): boolean => {
+    const head = token.split(' ')[0];
+    return COMMON_VERBS.has(head) || context.verbs.has(head);
+};
+
+/**
+ * Returns the length of the time expression starting at `index` (0 if none).
+ */
+const timeExpressionLength = (tokens: string[], index: number): number => {
+    if (TIME_WORDS.has(tokens[index])) return 1;
+    if (TIME_MODIFIERS.has(tokens[index]) && index + 1 < tokens.length && (TIME_UNITS.has(tokens[index + 1]) || TIME_WORDS.has(tokens[index + 1]))) return 2;
+    return 0;
+};
+
+export const expandContractions: GlossRule = {
+    name: 'EXPAND_CONTRACTIONS',
+    description: "Splits contractions into their words (don't -> do not, i'm -> i am).",
+    apply: (tokens) => tokens.flatMap(token => CONTRACTIONS[token] || [token])
+};
+
+export const numbersToWords: GlossRule = {
+    name: 'NUMBERS_TO_WORDS',
+    description: 'Spells out numbers for dataset compatibility (5 -> five).',
+    apply: (tokens) => tokens.map(token => NUMBER_MAP[token] || token)
+};
+
+export const lemmatizeWords: GlossRule = {
+    name: 'LEMMATIZE',
+    description: 'Reduces inflected words to the base form used by the sign vocabulary (running -> run).',
+    apply: (tokens, context) => {
+        // Words that only appear inside multi-word signs count as known, so "looking for" can still become "LOOK FOR"
+        const knownWords = new Set(context.vocabulary);
+        context.phrases.forEach(phrase => phrase.split(' ').forEach(part => knownWords.add(part)));
+
+        return tokens.map(token => {
+            const { lemma, isVerbForm } = lemmatize(token, knownWords);
+            if (isVerbForm) context.verbs.add(lemma);
+            return lemma;
+        });
+    }
+};
+
+export const groupPhrases: GlossRule = {
+    name: 'GROUP_PHRASES',
+    description: 'Keeps multi-word signs together as one token (thank you -> THANK YOU).',
+    apply: (tokens, context) => tokenizePhrases(tokens, context.phrases)
+};
+
+export const removeArticles: GlossRule = {
+    name: 'REMOVE_ARTICLES',
+    description: 'Drops articles (a, an, the); ISL has none.',
+    apply: (tokens) => tokens.filter(token => !ARTICLES.has(token))
+};
+
+export const removeHelpingVerbs: GlossRule = {
+    name: 'REMOVE_HELPING_VERBS',
+    description: 'Drops forms of "be" and auxiliary "do" (do you like -> you like, what do you want -> what you want, do not -> not).',
+    apply: (tokens) => tokens.filter((token, idx) => {
+        if (HELPING_VERBS.has(token)) return false;
+        const isAuxiliaryDo = token === 'do' && (idx === 0 || WH_QUESTIONS.has(tokens[idx - 1]) || NEGATIONS.has(tokens[idx + 1]));
+        return !isAuxiliaryDo;
+    })
+};
+
+export const handlePronouns: GlossRule = {
+    name: 'PRONOUNS',
+    description: 'Collapses reflexive/object pronouns to their indexed form (myself -> me) and drops dummy subjects (it is raining -> rain).',
+    apply: (tokens) => {
+        const mapped = tokens.map(token => PRONOUN_FORMS[token] || token);
+        return mapped.length > 1 && DUMMY_SUBJECTS.has(mapped[0]) ? mapped.slice(1) : mapped;
+    }
+};
+
+export const timeFirst: GlossRule = {
+    name: 'TIME_FIRST',
+    description: 'Moves time expressions to the start of the sentence (i go tomorrow -> tomorrow i go).',
+    apply: (tokens) => {
+        const time: string[] = [];
+        const rest: string[] = [];
+        for (let i = 0; i < tokens.length; i++) {
+            // "good morning" is a greeting, not a time expression
+            const length = ADJECTIVES.has(tokens[i - 1]) ? 0 : timeExpressionLength(tokens, i);
+            if (length > 0) {
+                time.push(...tokens.slice(i, i + length));
+                i += length - 1;
+            } else {
+                rest.push(tokens[i]);
+            }
+        }
+        return [...time, ...rest];
+    }
+};
+
+export const adjectiveAfterNoun: GlossRule = {
+    name: 'ADJECTIVE_AFTER_NOUN',
+    description: 'Places adjectives (and their intensifiers) after the noun they describe (red car -> car red).',
+    apply: (tokens, context) => {
+        const result: string[] = [];
+        let i = 0;
+        while (i < tokens.length) {
+            // Collect a run like "very big red" and check what follows it
+            let end = i;
+            while (end < tokens.length && (ADJECTIVES.has(tokens[end]) || (INTENSIFIERS.has(tokens[end]) && ADJECTIVES.has(tokens[end + 1])))) {
+                end++;
+            }
+            const noun = tokens[end];
+            const hasAdjective = tokens.slice(i, end).some(token => ADJECTIVES.has(token));
+            if (hasAdjective && noun !== undefined && !NON_NOUNS.has(noun) && !isVerb(noun, context) && timeExpressionLength(tokens, end) === 0) {
+                result.push(noun, ...tokens.slice(i, end));
+                i = end + 1;
+            } else {
+                result.push(...tokens.slice(i, Math.max(end, i + 1)));
+                i = Math.max(end, i + 1);
+            }
+        }
+        return result;
+    }
+};
+
+export const whQuestionLast: GlossRule = {
+    name: 'WH_QUESTION_LAST',
+    description: 'Moves a leading question word to the end (what your name -> your name what).',
+    apply: (tokens) => tokens.length > 1 && WH_QUESTIONS.has(tokens[0]) ? [...tokens.slice(1), tokens[0]] : tokens
+};
+
+export const sovOrder: GlossRule = {
+    name: 'SOV_ORDER',
+    description: 'Subject-Object-Verb: moves the first verb to the end when an object follows it.',
+    apply: (tokens, context) => {
+        const verbIndex = tokens.findIndex(token => isVerb(token, context));
+
+        // A trailing question word stays last
+        const last = WH_QUESTIONS.has(tokens[tokens.length - 1]) && tokens.length > 1 ? tokens.length - 1 : tokens.length;
+        if (verbIndex === -1 || verbIndex >= last - 1) return tokens;
+
+        const verb = tokens[verbIndex];
+        const withoutVerb = [...tokens.slice(0, verbIndex), ...tokens.slice(verbIndex + 1)];
+        withoutVerb.splice(last - 1, 0, verb);
+        return withoutVerb;
+    }
+};
+
+export const negationAfterVerb: GlossRule = {
+    name: 'NEGATION_AFTER_VERB',
+    description: 'Places NOT/NEVER right after the verb, or at the end when there is none (i not like coffee -> i coffee like not).',
+    apply: (tokens, context) => {
+        const negations = tokens.filter(token => NEGATIONS.has(token));
+        if (negations.length === 0) return tokens;
+
+        const rest = tokens.filter(token => !NEGATIONS.has(token));
+        let verbIndex = -1;
+        rest.forEach((token, idx) => {
+            if (isVerb(token, context)) verbIndex = idx;
+        });
+        const insertAt = verbIndex === -1 ? rest.length : verbIndex + 1;
+        return [...rest.slice(0, insertAt), ...negations, ...rest.slice(insertAt)];
+    }
+};
+
+/**
+ * Default rule order. Earlier rules normalize the sentence, later ones reorder it.
+ */
+export const DEFAULT_GLOSS_RULES: GlossRule[] = [
+    expandContractions,
+    numbersToWords,
+    lemmatizeWords,
+    groupPhrases,
+    removeArticles,
+    removeHelpingVerbs,
+    handlePronouns,
+    timeFirst,
+    adjectiveAfterNoun,
+    whQuestionLast,
+    sovOrder,
+    negationAfterVerb
+];
+
+/**
+ * Runs the rules in order and records which rule changed what.
+ */
+export const runRules = (tokens: string[], rules: GlossRule[], context: RuleContext): { tokens: string[]; trace: RuleTraceEntry[] } => {
+    const trace: RuleTraceEntry[] = [];
+    let current = tokens;
+
+    for (const rule of rules) {
+        if (current.length === 0) break;
+        const next = rule.apply(current, context);
+        // Compare with a separator that cannot appear inside phrase tokens
+        if (next.join('|') !== current.join('|')) {
+            trace.push({
+                rule: rule.name,
+                before: current.map(token => token.toUpperCase()),
+                after: next.map(token => token.toUpperCase())
+            });
+        }
+        current = next;
+    }
+
+    return { tokens: current, trace };
+};
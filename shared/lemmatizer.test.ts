@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { lemmatize } from './lemmatizer';
+
+const vocabulary = new Set([
+    'BOOK', 'BOX', 'WISH', 'WATCH', 'GO', 'CAT', 'USE', 'HOUSE', 'BABY', 'HAPPY', 'RUN', 'BIG', 'PLAY', 'OPEN', 'COME', 'WRITE',
+    // Short words that stems of longer ones could be mistaken for
+    'HAT', 'HATE', 'NOT', 'CAR', 'CARE', 'HOP', 'HOPE', 'PLAN', 'ON', 'ONE', 'US',
+]);
+
+const lemmaOf = (word: string) => lemmatize(word, vocabulary).lemma;
+
+describe('lemmatize', () => {
+    it('resolves irregular forms', () => {
+        expect(lemmatize('went', vocabulary)).toEqual({ lemma: 'go', isVerbForm: true });
+        expect(lemmaOf('children')).toBe('child');
+    });
+
+    it('keeps words that have a sign', () => {
+        expect(lemmatize('book', vocabulary)).toEqual({ lemma: 'book', isVerbForm: false });
+        expect(lemmaOf("book's")).toBe('book');
+    });
+
+    it('strips regular suffixes', () => {
+        expect(lemmaOf('cats')).toBe('cat');
+        expect(lemmaOf('babies')).toBe('baby');
+        expect(lemmaOf('happiest')).toBe('happy');
+        expect(lemmatize('running', vocabulary)).toEqual({ lemma: 'run', isVerbForm: true });
+        expect(lemmaOf('bigger')).toBe('big');
+        expect(lemmaOf('played')).toBe('play');
+        expect(lemmaOf('opened')).toBe('open');
+        expect(lemmaOf('coming')).toBe('come');
+        expect(lemmaOf('writing')).toBe('write');
+    });
+
+    it('only strips -es after a sibilant or an "o"', () => {
+        expect(lemmaOf('boxes')).toBe('box');
+        expect(lemmaOf('wishes')).toBe('wish');
+        expect(lemmaOf('watches')).toBe('watch');
+        expect(lemmaOf('goes')).toBe('go');
+        expect(lemmaOf('uses')).toBe('use');
+        expect(lemmaOf('houses')).toBe('house');
+        expect(lemmaOf('hates')).toBe('hate');
+        expect(lemmaOf('cares')).toBe('care');
+        expect(lemmaOf('hopes')).toBe('hope');
+        expect(lemmaOf('ones')).toBe('one');
+    });
+
+    it('restores a final "e" after a short syllable', () => {
+        expect(lemmaOf('hated')).toBe('hate');
+        expect(lemmaOf('cared')).toBe('care');
+        expect(lemmaOf('hoping')).toBe('hope');
+        expect(lemmaOf('using')).toBe('use');
+        expect(lemmaOf('hopping')).toBe('hop');
+    });
+
+    it('does not reduce a word to an unrelated shorter sign', () => {
+        expect(lemmaOf('notes')).toBe('notes');
+        expect(lemmaOf('planes')).toBe('planes');
+    });
+});
@@ -0,0 +1,114 @@
+/**
+ * Morphological Lemmatizer
+ *
+ * Reduces inflected English words to the base form used by the sign vocabulary:
+ * 1. Irregular verbs come from data/lemma-exceptions.json (went -> go, saw -> see).
+ * 2. Words that already have a sign are kept as they are.
+ * 3. Other irregular forms come from the same file (children -> child, better -> good).
+ * 4. Regular suffixes (-s, -es, -ies, -ing, -ed, -er, -est) generate candidate stems,
+ *    and the first candidate found in the vocabulary wins.
+ */
+
+import exceptions from './data/lemma-exceptions.json';
+
+export interface Lemma {
+    lemma: string;
+    /** True when the surface form is known to be an inflected verb (-ing, -ed, irregular past). */
+    isVerbForm: boolean;
+}
+
+interface SuffixRule {
+    suffix: string;
+    replacements: string[];
+    verbForm: boolean;
+    undoubleConsonant?: boolean;
+}
+
+// Ordered longest-suffix first so "-ies" is tried before "-es" and "-s"
+const SUFFIX_RULES: SuffixRule[] = [
+    { suffix: 'iest', replacements: ['y'], verbForm: false },
+    { suffix: 'ies', replacements: ['y'], verbForm: false },
+    { suffix: 'ied', replacements: ['y'], verbForm: true },
+    { suffix: 'ier', replacements: ['y'], verbForm: false },
+    { suffix: 'ing', replacements: ['', 'e'], verbForm: true, undoubleConsonant: true },
+    { suffix: 'est', replacements: ['', 'e'], verbForm: false, undoubleConsonant: true },
+    { suffix: 'ed', replacements: ['', 'e'], verbForm: true, undoubleConsonant: true },
+    { suffix: 'er', replacements: ['', 'e'], verbForm: false, undoubleConsonant: true },
+    { suffix: 'es', replacements: ['e', ''], verbForm: false },
+    { suffix: 's', replacements: [''], verbForm: false },
+];
+
+const MIN_STEM_LENGTH = 2;
+
+const IRREGULAR_VERBS: Record<string, string> = exceptions.verbs;
+const IRREGULAR_FORMS: Record<string, string> = { ...exceptions.nouns, ...exceptions.adjectives };
+
+const isConsonant = (char: string) => /[b-df-hj-np-tv-z]/.test(char);
+
+// Plurals in "-es" follow a sibilant or an "o" ("boxes", "wishes", "goes"); "notes" is "note" + "s", not "not" + "es"
+const TAKES_ES = /(s|x|z|ch|sh|o)$/;
+
+// "hop", "car", "us": a short vowel before a final consonant usually lost an "e" ("hoping", "cared", "using")
+const endsInShortSyllable = (base: string) => /(^|[^aeiou])[aeiou][b-df-hj-np-tvz]$/.test(base);
+
+/**
+ * Generates candidate base forms for a word, most likely first.
+ */
+const candidateStems = (word: string): { stem: string; verbForm: boolean }[] => {
+    const candidates: { stem: string; verbForm: boolean }[] = [];
+
+    for (const rule of SUFFIX_RULES) {
+        if (!word.endsWith(rule.suffix)) continue;
+        // "class" and "glass" are not plurals
+        if (rule.suffix === 's' && word.endsWith('ss')) continue;
+        const base = word.slice(0, -rule.suffix.length);
+        if (rule.suffix === 'es' && !TAKES_ES.test(base)) continue;
+
+        // "running" -> "runn" -> "run", "bigger" -> "bigg" -> "big"
+        const last = base[base.length - 1];
+        if (rule.undoubleConsonant && base.length > 2 && last === base[base.length - 2] && isConsonant(last)) {
+            candidates.push({ stem: base.slice(0, -1), verbForm: rule.verbForm });
+        }
+        const replacements = rule.replacements.includes('e') && endsInShortSyllable(base)
+            ? ['e', ...rule.replacements.filter(replacement => replacement !== 'e')]
+            : rule.replacements;
+        replacements.forEach(replacement => {
+            candidates.push({ stem: base + replacement, verbForm: rule.verbForm });
+        });
+    }
+
+    return candidates.filter(candidate => candidate.stem.length >= MIN_STEM_LENGTH);
+};
+
+/**
+ * Lemmatizes a single lowercase word.
+ *
+ * @param vocabulary - Uppercase sign vocabulary used to validate candidate stems.
+ *                     Without it only the irregular forms are resolved.
+ */
+export const lemmatize = (word: string, vocabulary: ReadonlySet<string> = new Set()): Lemma => {
+    // Possessives carry no sign of their own ("john's" -> "john")
+    const surface = word.replace(/'s?$/, '');
+
+    // Verb forms win over homographs in the vocabulary ("saw" -> "see", not the tool)
+    const irregularVerb = IRREGULAR_VERBS[surface];
+    if (irregularVerb) {
+        return { lemma: irregularVerb, isVerbForm: true };
+    }
+
+    if (vocabulary.has(surface.toUpperCase())) {
+        return { lemma: surface, isVerbForm: false };
+    }
+
+    const irregular = IRREGULAR_FORMS[surface];
+    if (irregular) {
+        return { lemma: irregular, isVerbForm: false };
+    }
+
+    const match = candidateStems(surface).find(candidate => vocabulary.has(candidate.stem.toUpperCase()));
+    if (match) {
+        return { lemma: match.stem, isVerbForm: match.verbForm };
+    }
+
+    return { lemma: surface, isVerbForm: false };
+};
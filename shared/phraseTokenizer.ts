@@ -0,0 +1,51 @@
+/**
+ * Multi-word Sign Phrase Tokenizer
+ *
+ * Some signs cover several English words ("THANK YOU", "ICE CREAM", "FROM NOW ON").
+ * Greedy longest-match tokenization keeps them together as a single token
+ * so they are looked up and played as one sign instead of falling apart.
+ */
+
+/**
+ * Returns the multi-word entries of a vocabulary (uppercase, single-spaced).
+ */
+export const extractPhrases = (vocabulary: Iterable<string>): Set<string> => {
+    const phrases = new Set<string>();
+    for (const entry of vocabulary) {
+        const normalized = entry.trim().toUpperCase().replace(/\s+/g, ' ');
+        if (normalized.includes(' ')) phrases.add(normalized);
+    }
+    return phrases;
+};
+
+/**
+ * Groups words into phrase tokens using greedy longest-match against the phrase set.
+ * Matching is case-insensitive; grouped tokens keep the casing of the input words.
+ *
+ * @example tokenizePhrases(['i', 'like', 'ice', 'cream'], phrases) // ['i', 'like', 'ice cream']
+ */
+export const tokenizePhrases = (words: string[], phrases: ReadonlySet<string>): string[] => {
+    if (phrases.size === 0) return [...words];
+
+    let maxPhraseLength = 0;
+    phrases.forEach(phrase => {
+        maxPhraseLength = Math.max(maxPhraseLength, phrase.split(' ').length);
+    });
+
+    const tokens: string[] = [];
+    let i = 0;
+    while (i < words.length) {
+        let matchedLength = 1;
+        for (let length = Math.min(maxPhraseLength, words.length - i); length > 1; length--) {
+            const candidate = words.slice(i, i + length).join(' ');
+            if (phrases.has(candidate.toUpperCase())) {
+                matchedLength = length;
+                break;
+            }
+        }
+        tokens.push(words.slice(i, i + matchedLength).join(' '));
+        i += matchedLength;
+    }
+
+    return tokens;
+};
@@ -0,0 +1,22 @@
+/**
+ * Sentence Segmenter
+ *
+ * Splits text into sentences. The grammar rules run on one sentence at a time,
+ * and typed or pasted text is played sentence by sentence.
+ * Uses Intl.Segmenter where available (it handles decimals, quotes and ellipses),
+ * otherwise splits after sentence-ending punctuation. Line breaks always end a sentence.
+ */
+
+const segmenter = typeof Intl.Segmenter === 'function' ? new Intl.Segmenter('en', { granularity: 'sentence' }) : null;
+
+export const segmentSentences = (text: string): string[] => {
+    const sentences = segmenter
+        ? Array.from(segmenter.segment(text), segment => segment.segment)
+        : text.split(/(?<=[.!?…])\s+/);
+
+    return sentences
+        .flatMap(sentence => sentence.split(/\n+/))
+        .map(sentence => sentence.trim())
+        // Punctuation or symbols alone are not sentences
+        .filter(sentence => /[\p{L}\p{N}]/u.test(sentence));
+};
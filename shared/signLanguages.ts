@@ -0,0 +1,29 @@
+/**
+ * Sign Languages
+ *
+ * Every sign and curated sentence belongs to one sign language, and vocabularies,
+ * lookups and curated sentences are scoped to it. This lets datasets of different
+ * languages live side by side and the UI say which one the user is watching.
+ */
+
+export type SignLanguage = 'ASL' | 'ISL';
+
+export interface SignLanguageInfo {
+    code: SignLanguage;
+    name: string;
+    /** Dataset the signs of this language are imported from. */
+    dataset: string;
+}
+
+export const SIGN_LANGUAGES: Record<SignLanguage, SignLanguageInfo> = {
+    ASL: { code: 'ASL', name: 'American Sign Language', dataset: 'WLASL' },
+    ISL: { code: 'ISL', name: 'Indian Sign Language', dataset: 'INCLUDE' },
+};
+
+export const SIGN_LANGUAGE_CODES = Object.keys(SIGN_LANGUAGES) as SignLanguage[];
+
+// The bundled signs come from WLASL, so ASL is what plays unless a language is asked for
+export const DEFAULT_SIGN_LANGUAGE: SignLanguage = 'ASL';
+
+export const isSignLanguage = (value: unknown): value is SignLanguage =>
+    typeof value === 'string' && SIGN_LANGUAGE_CODES.includes(value as SignLanguage);
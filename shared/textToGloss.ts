@@ -0,0 +1,79 @@
+/**
+ * Rule-based Text to ISL Gloss Converter
+ * 
+ * Splits English text into sentences, normalizes each into tokens and runs them through
+ * the ordered ISL grammar rules (see grammarRules.ts for the full list), e.g.:
+ * 1. Remove articles (a, an, the) and helping verbs (am, is, are, was, were)
+ * 2. Move time expressions to the start and adjectives after their noun
+ * 3. Maintain Subject -> Object -> Verb (SOV) order, negation after the verb
+ * 4. Move specific question words (WHAT, WHERE, etc.) to the end
+ * 5. Output in UPPERCASE
+ */
+
+import { extractPhrases } from './phraseTokenizer';
+import { DEFAULT_GLOSS_RULES, runRules, type GlossRule, type RuleTraceEntry } from './grammarRules';
+import { segmentSentences } from './sentenceSegmenter';
+
+/**
+ * Result of a gloss conversion, including which rules changed the sentence.
+ */
+export interface GlossResult {
+    gloss: string;
+    tokens: string[];
+    rulesApplied: string[];
+    trace: RuleTraceEntry[];
+}
+
+export interface GlossOptions {
+    /** Uppercase sign vocabulary, used to validate lemmas. */
+    vocabulary?: ReadonlySet<string>;
+    /** Multi-word signs of the vocabulary; derived from `vocabulary` when omitted. */
+    phrases?: ReadonlySet<string>;
+    /** Ordered grammar rules to run; defaults to DEFAULT_GLOSS_RULES. */
+    rules?: GlossRule[];
+    /** Names of rules to skip, e.g. ['SOV_ORDER']. */
+    disabledRules?: string[];
+}
+
+/**
+ * Converts English text to ISL gloss and reports the rules that were applied.
+ * Shared between the browser interpreter and the /api/translate route.
+ */
+export const translateToGloss = (text: string, options: GlossOptions = {}): GlossResult => {
+    if (!text || typeof text !== 'string') return { gloss: '', tokens: [], rulesApplied: [], trace: [] };
+
+    const vocabulary = options.vocabulary || new Set<string>();
+    const disabled = new Set(options.disabledRules || []);
+    const rules = (options.rules || DEFAULT_GLOSS_RULES).filter(rule => !disabled.has(rule.name));
+
+    const context = {
+        vocabulary,
+        phrases: options.phrases || extractPhrases(vocabulary),
+    };
+
+    // Each sentence is reordered on its own ("I am home. Tomorrow I go" must not move TOMORROW to the front)
+    const tokens: string[] = [];
+    const trace: RuleTraceEntry[] = [];
+    segmentSentences(text).forEach(sentence => {
+        // Tokenize and Normalize
+        const words = sentence.toLowerCase()
+            .replace(/[.,\/#!?$%\^&\*;:{}=\-_`~()"]/g, "") // Remove punctuation
+            .split(/\s+/)
+            .filter(word => word.length > 0);
+
+        const result = runRules(words, rules, { ...context, verbs: new Set() });
+        tokens.push(...result.tokens);
+        trace.push(...result.trace);
+    });
+
+    // Convert to UPPERCASE
+    const glossTokens = tokens.map(token => token.toUpperCase());
+    return {
+        gloss: glossTokens.join(' '),
+        tokens: glossTokens,
+        rulesApplied: Array.from(new Set(trace.map(entry => entry.rule))),
+        trace
+    };
+};
+
+export const convertToGloss = (text: string, options?: GlossOptions): string => translateToGloss(text, options).gloss;
@@ -0,0 +1,74 @@
+/**
+ * Per-token Sign Matching
+ *
+ * Decides how each gloss token will be signed:
+ * 1. MATCHED - the token has its own sign.
+ * 2. SUBSTITUTED - a synonym with a sign is used instead (e.g. HI -> HELLO).
+ * 3. FINGERSPELLED - the token is spelled out letter by letter.
+ * 4. DROPPED - nothing can be signed for the token.
+ */
+
+import { fingerspell } from './fingerspelling';
+
+export type TokenStatus = 'MATCHED' | 'SUBSTITUTED' | 'FINGERSPELLED' | 'DROPPED';
+
+export interface TokenMatch {
+    token: string;
+    status: TokenStatus;
+    signs: string[];
+    missingLetters: string[];
+}
+
+// Common words without a sign of their own, mapped to signed equivalents (first available wins)
+export const SYNONYMS: Record<string, string[]> = {
+    'HI': ['HELLO'],
+    'HEY': ['HELLO'],
+    'THANK': ['THANK YOU'],
+    'THANKS': ['THANK YOU'],
+    'OKAY': ['OK', 'FINE'],
+    'YEAH': ['YES'],
+    'YEP': ['YES'],
+    'NOPE': ['NO'],
+    'TOO': ['ALSO'],
+    'BEGIN': ['START'],
+    'AUTOMOBILE': ['CAR'],
+    'LITTLE': ['SMALL'],
+    'GLAD': ['HAPPY'],
+    'UNHAPPY': ['SAD'],
+    'KIDS': ['CHILDREN', 'KID'],
+    'BUDDY': ['FRIEND'],
+    'PAL': ['FRIEND'],
+    'LOOK': ['SEE', 'WATCH'],
+    'CASH': ['MONEY'],
+    'INFANT': ['BABY'],
+    'FILM': ['MOVIE'],
+    'INSTRUCTOR': ['TEACHER'],
+    'PUPIL': ['STUDENT'],
+    'PLANE': ['AIRPLANE'],
+    'EXCELLENT': ['GREAT', 'GOOD'],
+    'INTELLIGENT': ['SMART'],
+    'US': ['WE'],
+    'MOMMY': ['MOM', 'MOTHER'],
+    'DADDY': ['DAD', 'FATHER'],
+};
+
+/**
+ * Resolves a single gloss token against the vocabulary.
+ */
+export const matchToken = (token: string, vocabulary: ReadonlySet<string>): TokenMatch => {
+    if (vocabulary.has(token)) {
+        return { token, status: 'MATCHED', signs: [token], missingLetters: [] };
+    }
+
+    const synonym = (SYNONYMS[token] || []).find(candidate => vocabulary.has(candidate));
+    if (synonym) {
+        return { token, status: 'SUBSTITUTED', signs: [synonym], missingLetters: [] };
+    }
+
+    const spelled = fingerspell(token, vocabulary);
+    if (spelled.letters.length > 0) {
+        return { token, status: 'FINGERSPELLED', signs: spelled.letters, missingLetters: spelled.missingLetters };
+    }
+
+    return { token, status: 'DROPPED', signs: [], missingLetters: spelled.missingLetters };
+};